@@ -1,9 +1,24 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
 import { mount } from '@vue/test-utils'
-import { nextTick } from 'vue'
+import { createSSRApp, defineComponent, h, inject, nextTick, onUnmounted, ref } from 'vue'
+import { renderToString } from 'vue/server-renderer'
 import App from '../App.vue'
+import { RenderMode } from '../extras/types'
+import type { IScriptMeta, IUrlRewriteContext } from '../extras/types'
+import { clearStyleSheetCache } from '../renderers/styleSheets'
+import { clearHtmlSourceCache, fetchHtml } from '../renderers/htmlSource'
+import { getScriptSandbox } from '../renderers/scriptSandbox'
+import { disposeSideEffects, runWithSideEffectTracking } from '../renderers/sideEffects'
+import { createHtmlRenderer } from '../renderers/htmlRenderer'
+import { renderServerHtml } from '../renderers/serverRenderer'
+import { HtmlRendererElement, registerHtmlRenderer } from '../customElement'
+import { ContentSecurityPolicyError } from '../extras/contentSecurity'
+import { ScriptLoadError } from '../extras/scriptPolicy'
 import { readFileSync } from 'fs'
 import { resolve } from 'path'
+import { createServer } from 'http'
+import type { Server, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
 
 /**
  * Comprehensive Test Suite for VueHTMLRenderer
@@ -106,6 +121,25 @@ describe('VueHTMLRenderer - Comprehensive Test Suite', () => {
       expect(hostEl.querySelector('h1')).toBeTruthy()
     })
 
+    it('runs scripts at their original position in the content', async () => {
+      const html =
+        '<p id="before">Before</p>' +
+        '<script>document.__position = document.currentScript.previousElementSibling.id</script>' +
+        '<p id="after">After</p>'
+      const wrapper = mount(App, { props: { html }, attachTo: document.body })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      const hostEl = wrapper.vm.$el as HTMLElement
+      expect((document as any).__position).toBe('before')
+      expect(Array.from(hostEl.children, (el) => el.id || el.tagName)).toEqual([
+        'before',
+        'SCRIPT',
+        'after',
+      ])
+      delete (document as any).__position
+      wrapper.unmount()
+    })
+
     it('handles async and defer scripts correctly', async () => {
       const html = loadFixture('async-defer-scripts.html')
       const wrapper = mount(App, {
@@ -302,7 +336,7 @@ describe('VueHTMLRenderer - Comprehensive Test Suite', () => {
 
     it('extracts and injects @font-face rules', async () => {
       const html = loadFixture('font-face.html')
-      mount(App, {
+      const wrapper = mount(App, {
         props: { html, isShadow: true },
       })
 
@@ -313,6 +347,8 @@ describe('VueHTMLRenderer - Comprehensive Test Suite', () => {
       expect(fontStyle).toBeTruthy()
       expect(fontStyle?.textContent).toContain('@font-face')
       expect(fontStyle?.textContent).toContain('CustomFont')
+      // Injected fonts are shared between instances; release them
+      wrapper.unmount()
     })
 
     it('does NOT execute scripts in shadow mode', async () => {
@@ -414,6 +450,2289 @@ describe('VueHTMLRenderer - Comprehensive Test Suite', () => {
     })
   })
 
+  describe('Reactive Updates', () => {
+    it('re-renders direct content when the html prop changes', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p id="first">First</p>', isShadow: false },
+      })
+
+      await nextTick()
+      const hostEl = wrapper.vm.$el as HTMLElement
+      expect(hostEl.querySelector('#first')).toBeTruthy()
+
+      await wrapper.setProps({ html: '<p id="second">Second</p>' })
+      await waitFor(10)
+
+      expect(hostEl.querySelector('#first')).toBeNull()
+      expect(hostEl.querySelector('#second')?.textContent).toBe('Second')
+    })
+
+    it('removes scripts of the previous render', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<div>A</div><script>var __reactiveA = 1</script>', isShadow: false },
+      })
+
+      await nextTick()
+      await waitFor(10)
+      const hostEl = wrapper.vm.$el as HTMLElement
+      expect(hostEl.querySelectorAll('script').length).toBe(1)
+
+      await wrapper.setProps({ html: '<div>B</div>' })
+      await waitFor(10)
+
+      expect(hostEl.querySelectorAll('script').length).toBe(0)
+      expect(hostEl.textContent).toBe('B')
+    })
+
+    it('re-renders shadow content and drops fonts of the previous render', async () => {
+      const html = loadFixture('font-face.html')
+      const wrapper = mount(App, {
+        props: { html, isShadow: true },
+      })
+
+      await nextTick()
+      expect(document.getElementById('shadow-dom-fonts')?.textContent).toContain('CustomFont')
+
+      await wrapper.setProps({ html: '<html><body><h2>Plain</h2></body></html>' })
+      await waitFor(10)
+
+      const hostEl = wrapper.vm.$el as HTMLElement
+      expect(hostEl.shadowRoot?.querySelector('h2')?.textContent).toBe('Plain')
+      expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+    })
+
+    it('switches from direct to shadow mode and back', async () => {
+      const html = '<p class="content">Switch me</p>'
+      const wrapper = mount(App, {
+        props: { html, isShadow: false },
+      })
+
+      await nextTick()
+      const hostEl = wrapper.vm.$el as HTMLElement
+      expect(hostEl.querySelector('.content')).toBeTruthy()
+
+      await wrapper.setProps({ isShadow: true })
+      await waitFor(10)
+      expect(hostEl.querySelector('.content')).toBeNull()
+      expect(hostEl.shadowRoot?.querySelector('.content')).toBeTruthy()
+
+      await wrapper.setProps({ isShadow: false })
+      await waitFor(10)
+      expect(hostEl.querySelector('.content')).toBeTruthy()
+      expect(hostEl.shadowRoot?.querySelector('.content')).toBeNull()
+      // Light DOM content is projected through the retained shadow root
+      expect(hostEl.shadowRoot?.querySelector('slot')).toBeTruthy()
+    })
+  })
+
+  describe('Morph Update Strategy', () => {
+    it('keeps unchanged elements and form state when morphing', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<input id="name" /><p id="status">Draft</p>',
+          updateStrategy: 'morph',
+        },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+      const hostEl = wrapper.vm.$el as HTMLElement
+      const input = hostEl.querySelector('#name') as HTMLInputElement
+      input.value = 'typed by user'
+      input.focus()
+
+      await wrapper.setProps({ html: '<input id="name" /><p id="status">Saved</p>' })
+      await waitFor(10)
+
+      expect(hostEl.querySelector('#name')).toBe(input)
+      expect(input.value).toBe('typed by user')
+      expect(document.activeElement).toBe(input)
+      expect(hostEl.querySelector('#status')?.textContent).toBe('Saved')
+      wrapper.unmount()
+    })
+
+    it('matches keyed elements when they are reordered', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<ul><li data-key="a">A</li><li data-key="b">B</li></ul>',
+          updateStrategy: 'morph',
+        },
+      })
+
+      await nextTick()
+      const hostEl = wrapper.vm.$el as HTMLElement
+      const itemA = hostEl.querySelector('[data-key="a"]')
+      const itemB = hostEl.querySelector('[data-key="b"]')
+
+      await wrapper.setProps({
+        html: '<ul><li data-key="b">B</li><li data-key="c">C</li><li data-key="a">A</li></ul>',
+      })
+      await waitFor(10)
+
+      const items = Array.from(hostEl.querySelectorAll('li'))
+      expect(items.map((li) => li.textContent)).toEqual(['B', 'C', 'A'])
+      expect(items[0]).toBe(itemB)
+      expect(items[2]).toBe(itemA)
+    })
+
+    it('only re-executes scripts whose content changed', async () => {
+      const counter = 'document.body.dataset.morphRuns = (document.body.dataset.morphRuns || "") + '
+      const wrapper = mount(App, {
+        props: {
+          html: `<p>v1</p><script>${counter}"a"</script><script>${counter}"b"</script>`,
+          updateStrategy: 'morph',
+        },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+      await waitFor(10)
+      expect(document.body.dataset.morphRuns).toBe('ab')
+
+      await wrapper.setProps({
+        html: `<p>v2</p><script>${counter}"a"</script><script>${counter}"c"</script>`,
+      })
+      await waitFor(10)
+
+      expect(document.body.dataset.morphRuns).toBe('abc')
+      expect((wrapper.vm.$el as HTMLElement).querySelectorAll('script').length).toBe(2)
+      wrapper.unmount()
+      delete document.body.dataset.morphRuns
+    })
+
+    it('morphs shadow content in place', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<html><body><main id="main"><h1>One</h1></main></body></html>',
+          isShadow: true,
+          updateStrategy: 'morph',
+        },
+      })
+
+      await nextTick()
+      const shadowRoot = (wrapper.vm.$el as HTMLElement).shadowRoot
+      const main = shadowRoot?.querySelector('#main')
+
+      await wrapper.setProps({
+        html: '<html><body><main id="main"><h1>Two</h1></main></body></html>',
+      })
+      await waitFor(10)
+
+      expect(shadowRoot?.querySelector('#main')).toBe(main)
+      expect(shadowRoot?.querySelector('h1')?.textContent).toBe('Two')
+      expect(shadowRoot?.querySelectorAll('html').length).toBe(1)
+    })
+  })
+
+  describe('Sanitization', () => {
+    const unsafe =
+      '<p onclick="steal()">Hello</p>' +
+      '<a href="javascript:alert(1)">bad</a><a href="https://example.com">good</a>' +
+      '<img src="x.png" onerror="steal()">' +
+      '<script>document.body.dataset.sanitizeRan = "yes"</script>' +
+      '<style>p { color: red; }</style><blink>kept text</blink>'
+
+    it('does not sanitize by default', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p onclick="void 0">Hi</p>' },
+      })
+
+      await nextTick()
+      const hostEl = wrapper.vm.$el as HTMLElement
+      expect(hostEl.querySelector('p')?.getAttribute('onclick')).toBe('void 0')
+    })
+
+    it('applies the strict preset in direct mode before scripts run', async () => {
+      const wrapper = mount(App, {
+        props: { html: unsafe, sanitize: 'strict' },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+      await waitFor(10)
+      const hostEl = wrapper.vm.$el as HTMLElement
+
+      expect(hostEl.querySelector('p')?.hasAttribute('onclick')).toBe(false)
+      expect(hostEl.querySelectorAll('a')[0]?.hasAttribute('href')).toBe(false)
+      expect(hostEl.querySelectorAll('a')[1]?.getAttribute('href')).toBe('https://example.com')
+      expect(hostEl.querySelector('img')?.hasAttribute('onerror')).toBe(false)
+      expect(hostEl.querySelector('script')).toBeNull()
+      expect(hostEl.querySelector('style')).toBeNull()
+      expect(hostEl.querySelector('blink')).toBeNull()
+      expect(hostEl.textContent).toContain('kept text')
+      expect(document.body.dataset.sanitizeRan).toBeUndefined()
+      wrapper.unmount()
+    })
+
+    it('keeps styles with the email preset in shadow mode', async () => {
+      const html = loadFixture('font-face.html')
+      const wrapper = mount(App, {
+        props: {
+          html: html
+            .replace(
+              '<head>',
+              '<head><link rel="stylesheet" href="https://evil.example.com/t.css">',
+            )
+            .replace('<body>', '<body onload="steal()">'),
+          isShadow: true,
+          sanitize: 'email',
+        },
+      })
+
+      await nextTick()
+      const shadowRoot = (wrapper.vm.$el as HTMLElement).shadowRoot
+      expect(shadowRoot?.querySelector('style')).toBeTruthy()
+      expect(shadowRoot?.querySelector('body')?.hasAttribute('onload')).toBe(false)
+      // Linked stylesheets could load (and track) from anywhere
+      expect(shadowRoot?.querySelector('link')).toBeNull()
+      expect(document.getElementById('shadow-dom-fonts')?.textContent).toContain('CustomFont')
+      wrapper.unmount()
+    })
+
+    it('supports custom allow-lists and hooks', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<section><a href="http://example.com">link</a><em>drop me</em></section>',
+          sanitize: {
+            allowedTags: ['section', 'a', 'em'],
+            allowedAttributes: { a: ['href', 'rel'] },
+            allowedSchemes: ['https'],
+            hook: (el: Element) => {
+              if (el.localName === 'em') return false
+              if (el.localName === 'a') el.setAttribute('rel', 'noopener')
+            },
+          },
+        },
+      })
+
+      await nextTick()
+      const hostEl = wrapper.vm.$el as HTMLElement
+      const link = hostEl.querySelector('a')
+      expect(link?.hasAttribute('href')).toBe(false)
+      expect(link?.getAttribute('rel')).toBe('noopener')
+      expect(hostEl.querySelector('em')).toBeNull()
+    })
+  })
+
+  describe('Script Policy', () => {
+    const mark = (value: string) =>
+      `<script>document.body.dataset.policyRuns = (document.body.dataset.policyRuns || "") + "${value}"</script>`
+
+    afterEach(() => {
+      delete document.body.dataset.policyRuns
+    })
+
+    it('blocks inline scripts and reports them', async () => {
+      const wrapper = mount(App, {
+        props: { html: `<p>Inline</p>${mark('a')}`, scriptPolicy: { allowInline: false } },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+      await waitFor(10)
+
+      expect(document.body.dataset.policyRuns).toBeUndefined()
+      const events = wrapper.emitted('scriptBlocked')
+      expect(events).toHaveLength(1)
+      expect(events?.[0]?.[1]).toBe('inline')
+      // The placeholder comment of a blocked script is removed
+      expect((wrapper.vm.$el as HTMLElement).innerHTML).toBe('<p>Inline</p>')
+      wrapper.unmount()
+    })
+
+    it('blocks external scripts from sources that are not allowed', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<script src="https://evil.example.com/x.js"></script><script type="module">1</script>',
+          scriptPolicy: { allowedSources: ['https://cdn.example.com'], allowModules: false },
+        },
+      })
+
+      await nextTick()
+      await waitFor(10)
+
+      const events = wrapper.emitted('scriptBlocked') ?? []
+      expect(events.map((e) => e[1])).toEqual(['source', 'module'])
+      expect((events[0]![0] as IScriptMeta).attrs.src).toBe('https://evil.example.com/x.js')
+    })
+
+    it('lets beforeScriptExecute veto and rewrite scripts', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: `${mark('a')}${mark('b')}`,
+          scriptPolicy: {
+            beforeScriptExecute: async (meta: IScriptMeta) => {
+              if (meta.code?.includes('"a"')) return false
+              meta.code = meta.code?.replace('"b"', '"rewritten"') ?? null
+              return true
+            },
+          },
+        },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+      await waitFor(10)
+
+      expect(document.body.dataset.policyRuns).toBe('rewritten')
+      expect(wrapper.emitted('scriptBlocked')?.[0]?.[1]).toBe('hook')
+      wrapper.unmount()
+    })
+
+    it('sets integrity hashes from the map and refuses unlisted external scripts', async () => {
+      const listed = 'data:text/javascript,document.body.dataset.policyRuns=1'
+      const missing = 'file:///nonexistent/widget.js'
+      const wrapper = mount(App, {
+        props: {
+          html:
+            `<script src="${listed}"></script>` +
+            '<script src="data:text/javascript,document.body.dataset.policyRuns=2"></script>' +
+            `<script src="${missing}" crossorigin="use-credentials"></script>`,
+          scriptPolicy: { integrity: { [listed]: 'sha384-listed', [missing]: 'sha384-missing' } },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      const scripts = Array.from((wrapper.vm.$el as HTMLElement).querySelectorAll('script'))
+      expect(
+        scripts.map((s) => [s.getAttribute('integrity'), s.getAttribute('crossorigin')]),
+      ).toEqual([
+        ['sha384-listed', 'anonymous'],
+        ['sha384-missing', 'use-credentials'],
+      ])
+      expect(document.body.dataset.policyRuns).toBe('1')
+
+      const errors = (wrapper.emitted('scriptError') ?? []).map(([, error]) => error)
+      expect(errors).toHaveLength(2)
+      expect(errors.every((error) => error instanceof ScriptLoadError)).toBe(true)
+      expect(errors.map((error) => (error as ScriptLoadError).reason)).toEqual([
+        'blocked',
+        'network',
+      ])
+      expect((errors[1] as ScriptLoadError).src).toBe(missing)
+      wrapper.unmount()
+    })
+
+    it('reports integrity failures only for responses that arrived', async () => {
+      const src = 'file:///nonexistent/partner.js'
+      const entries = vi.spyOn(performance, 'getEntriesByName')
+      const reasonFor = async (timing: Partial<PerformanceResourceTiming>[]) => {
+        entries.mockReturnValue(timing as PerformanceEntryList)
+        const wrapper = mount(App, {
+          props: {
+            html: `<script src="${src}"></script>`,
+            scriptPolicy: { integrity: { [src]: 'sha384-partner' } },
+          },
+          attachTo: document.body,
+        })
+        await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+        const [, error] = wrapper.emitted('scriptError')![0] as [IScriptMeta, ScriptLoadError]
+        wrapper.unmount()
+        return error.reason
+      }
+
+      // A successful response that still failed didn't match its hash
+      expect(await reasonFor([{ responseStatus: 200 }])).toBe('integrity')
+      expect(entries).toHaveBeenCalledExactlyOnceWith(src, 'resource')
+      // Without a status (or with an error status), it failed to load
+      expect(await reasonFor([])).toBe('network')
+      expect(await reasonFor([{ responseStatus: 404 }])).toBe('network')
+      entries.mockRestore()
+    })
+  })
+
+  describe('Shadow Mode Script Execution', () => {
+    const html =
+      '<html><body><div id="widget"></div>' +
+      '<script>root.getElementById("widget").textContent = "ready"</script>' +
+      '<script defer>root.getElementById("widget").dataset.deferred = "yes"</script>' +
+      '</body></html>'
+
+    it('recreates scripts inside the shadow tree with a scoped root', async () => {
+      const wrapper = mount(App, {
+        props: { html, isShadow: true, executeScripts: true },
+      })
+
+      await nextTick()
+      await waitFor(10)
+
+      const shadowRoot = (wrapper.vm.$el as HTMLElement).shadowRoot
+      const scripts = Array.from(shadowRoot?.querySelectorAll('script') ?? [])
+      expect(scripts).toHaveLength(2)
+      // Inline code is wrapped in a block binding `root` to the shadow root
+      expect(scripts[0]?.textContent).toMatch(/^\{ const root = /)
+      expect(scripts[0]?.textContent).toContain('root.getElementById("widget")')
+      expect(scripts[1]?.defer).toBe(true)
+      // No placeholders are left behind
+      expect(shadowRoot?.innerHTML).not.toContain('SCRIPT_PLACEHOLDER')
+    })
+
+    it('keeps scripts inert in shadow mode by default', async () => {
+      const wrapper = mount(App, {
+        props: { html, isShadow: true },
+      })
+
+      await nextTick()
+
+      const script = (wrapper.vm.$el as HTMLElement).shadowRoot?.querySelector('script')
+      expect(script?.textContent).toBe('root.getElementById("widget").textContent = "ready"')
+    })
+
+    it('applies the script policy in shadow mode', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html,
+          isShadow: true,
+          executeScripts: true,
+          scriptPolicy: { allowInline: false },
+        },
+      })
+
+      await nextTick()
+      await waitFor(10)
+
+      expect(wrapper.emitted('scriptBlocked')).toHaveLength(2)
+      expect((wrapper.vm.$el as HTMLElement).shadowRoot?.querySelector('script')).toBeNull()
+    })
+  })
+
+  describe('Lifecycle Events', () => {
+    it('emits beforeRender and rendered and resolves ready', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p>Lifecycle</p>' },
+      })
+
+      const exposed = wrapper.vm as unknown as { ready: Promise<void>; status: string }
+      await exposed.ready
+
+      expect(wrapper.emitted('beforeRender')).toHaveLength(1)
+      expect(wrapper.emitted('rendered')).toHaveLength(1)
+      expect(exposed.status).toBe('rendered')
+    })
+
+    it('emits cleared when rendered content is replaced', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p>First</p>' },
+      })
+
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+      // Nothing was rendered before the first render
+      expect(wrapper.emitted('cleared')).toBeUndefined()
+
+      await wrapper.setProps({ html: '<p>Second</p>' })
+      await waitFor(10)
+      expect(wrapper.emitted('cleared')).toHaveLength(1)
+      expect(wrapper.emitted('rendered')).toHaveLength(2)
+    })
+
+    it('reports executed and failing scripts', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html:
+            '<script>document.body.dataset.lifecycle = "ran"</script>' +
+            '<script>throw new Error("boom")</script>',
+        },
+        attachTo: document.body,
+      })
+
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+
+      expect(document.body.dataset.lifecycle).toBe('ran')
+      const loaded = wrapper.emitted('scriptLoaded') as [IScriptMeta][]
+      expect(loaded).toHaveLength(1)
+      expect(loaded[0]![0].code).toContain('lifecycle')
+
+      const errors = wrapper.emitted('scriptError') as [IScriptMeta, unknown][]
+      expect(errors).toHaveLength(1)
+      expect(errors[0]![0].code).toContain('boom')
+      expect((errors[0]![1] as Error).message).toBe('boom')
+
+      delete document.body.dataset.lifecycle
+      wrapper.unmount()
+    })
+  })
+
+  describe('Iframe Mode', () => {
+    const getIframe = (wrapper: ReturnType<typeof mount>) =>
+      (wrapper.vm.$el as HTMLElement).querySelector('iframe') as HTMLIFrameElement
+
+    const getChannel = (iframe: HTMLIFrameElement) =>
+      /var CHANNEL = "([^"]+)"/.exec(iframe.srcdoc)?.[1]
+
+    it('renders into a sandboxed srcdoc iframe', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p id="untrusted">Hello</p>', mode: RenderMode.Iframe },
+        attachTo: document.body,
+      })
+
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+
+      const iframe = getIframe(wrapper)
+      expect(iframe.getAttribute('sandbox')).toBe('allow-scripts')
+      expect(iframe.srcdoc).toMatch(/^<!DOCTYPE html><html><head><script>/)
+      expect(iframe.srcdoc).toContain('window.htmlRendererBridge')
+      expect(iframe.srcdoc).toContain('<p id="untrusted">Hello</p>')
+      // Nothing is rendered into the host page itself
+      expect(document.getElementById('untrusted')).toBeNull()
+      wrapper.unmount()
+    })
+
+    it('settles a render whose iframe is cleared before it loads', async () => {
+      const host = document.createElement('div')
+      document.body.appendChild(host)
+      const renderer = createHtmlRenderer(host, { html: '<p>Hi</p>', mode: RenderMode.Iframe })
+
+      const rendering = renderer.render()
+      await vi.waitFor(() => expect(host.querySelector('iframe')).not.toBeNull())
+      const iframe = host.querySelector('iframe')!
+      const onLoad = vi.fn()
+      iframe.addEventListener('load', onLoad)
+      renderer.clear()
+
+      await rendering
+      expect(onLoad).not.toHaveBeenCalled()
+      expect(renderer.status).toBe('idle')
+      renderer.destroy()
+      host.remove()
+    })
+
+    it('applies custom sandbox flags and the sanitizer', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<p onclick="alert(1)">Hi</p>',
+          mode: RenderMode.Iframe,
+          iframe: { sandbox: 'allow-scripts allow-forms', title: 'Preview' },
+          sanitize: 'strict',
+        },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+
+      const iframe = getIframe(wrapper)
+      expect(iframe.getAttribute('sandbox')).toBe('allow-scripts allow-forms')
+      expect(iframe.title).toBe('Preview')
+      expect(iframe.srcdoc).toContain('<p>Hi</p>')
+      // The bridge is added after sanitization
+      expect(iframe.srcdoc).toContain('window.htmlRendererBridge')
+      wrapper.unmount()
+    })
+
+    it('resizes to the content and forwards bridge messages', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p>Widget</p>', mode: RenderMode.Iframe },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+
+      const iframe = getIframe(wrapper)
+      const channel = getChannel(iframe)
+      const post = (data: object, source: Window | null = iframe.contentWindow) =>
+        window.dispatchEvent(
+          new MessageEvent('message', {
+            data: { source: 'vue-html-renderer', channel, ...data },
+            source,
+          }),
+        )
+
+      post({ kind: 'resize', type: 'resize', payload: 240 })
+      expect(iframe.style.height).toBe('240px')
+
+      post({ kind: 'message', type: 'checkout', payload: { total: 3 } })
+      expect(wrapper.emitted('message')).toEqual([[{ type: 'checkout', payload: { total: 3 } }]])
+
+      // Messages from other windows or channels are ignored
+      post({ kind: 'message', type: 'spoofed' }, window)
+      post({ kind: 'message', type: 'spoofed', channel: 'other' })
+      expect(wrapper.emitted('message')).toHaveLength(1)
+      wrapper.unmount()
+    })
+
+    it('sends messages to the content', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p>Widget</p>', mode: RenderMode.Iframe },
+        attachTo: document.body,
+      })
+
+      await nextTick()
+
+      const iframe = getIframe(wrapper)
+      const sent: unknown[] = []
+      iframe.contentWindow!.postMessage = ((data: unknown) =>
+        sent.push(data)) as Window['postMessage']
+
+      const exposed = wrapper.vm as unknown as {
+        postMessage: (type: string, payload?: unknown) => void
+      }
+      exposed.postMessage('theme', { dark: true })
+
+      expect(sent).toEqual([
+        {
+          source: 'vue-html-renderer',
+          channel: getChannel(iframe),
+          kind: 'message',
+          type: 'theme',
+          payload: { dark: true },
+        },
+      ])
+      wrapper.unmount()
+    })
+
+    it('prefers mode over the deprecated isShadow flag', async () => {
+      const wrapper = mount(App, {
+        props: { html: '<p>Mode</p>', mode: RenderMode.Direct, isShadow: true },
+      })
+
+      await nextTick()
+
+      expect((wrapper.vm.$el as HTMLElement).shadowRoot).toBeNull()
+      expect((wrapper.vm.$el as HTMLElement).innerHTML).toBe('<p>Mode</p>')
+
+      await wrapper.setProps({ mode: RenderMode.Iframe })
+      await nextTick()
+
+      expect((wrapper.vm.$el as HTMLElement).querySelector('p')).toBeNull()
+      expect(getIframe(wrapper)).not.toBeNull()
+    })
+  })
+
+  describe('Shadow Root Options', () => {
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('renders into and clears a closed shadow root', async () => {
+      const attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow')
+      const wrapper = mount(App, {
+        props: {
+          html: '<p>Closed</p>',
+          mode: RenderMode.Shadow,
+          shadowRootInit: { mode: 'closed', delegatesFocus: true },
+        },
+      })
+
+      await nextTick()
+
+      expect(attachShadow).toHaveBeenCalledExactlyOnceWith({ mode: 'closed', delegatesFocus: true })
+      const root = attachShadow.mock.results[0]?.value as ShadowRoot
+      // Closed roots aren't reachable from the host, but the renderer still uses them
+      expect((wrapper.vm.$el as HTMLElement).shadowRoot).toBeNull()
+      expect(root.querySelector('p')?.textContent).toBe('Closed')
+
+      await wrapper.setProps({ html: '<p>Updated</p>' })
+      await nextTick()
+      expect(root.querySelectorAll('p')).toHaveLength(1)
+      expect(root.querySelector('p')?.textContent).toBe('Updated')
+
+      wrapper.unmount()
+      expect(root.childNodes).toHaveLength(0)
+    })
+
+    it('attaches an open shadow root by default', async () => {
+      const attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow')
+      const wrapper = mount(App, {
+        props: { html: '<p>Open</p>', mode: RenderMode.Shadow },
+      })
+
+      await nextTick()
+
+      expect(attachShadow).toHaveBeenCalledExactlyOnceWith({ mode: 'open' })
+      expect((wrapper.vm.$el as HTMLElement).shadowRoot?.querySelector('p')?.textContent).toBe(
+        'Open',
+      )
+    })
+  })
+
+  describe('Font Registry', () => {
+    const font = (family: string) =>
+      `<style>@font-face { font-family: '${family}'; src: url(${family}.woff2); }</style><p>Text</p>`
+
+    it('keeps shared fonts until the last instance using them is unmounted', async () => {
+      const first = mount(App, { props: { html: font('Shared'), mode: RenderMode.Shadow } })
+      const second = mount(App, {
+        props: { html: font('Shared') + font('Own'), mode: RenderMode.Shadow },
+      })
+
+      await nextTick()
+
+      const fontStyle = () => document.getElementById('shadow-dom-fonts')
+      // Identical rules are only written once
+      expect(fontStyle()?.textContent?.match(/Shared/g)).toHaveLength(2)
+      expect(fontStyle()?.textContent).toContain('Own')
+
+      second.unmount()
+      expect(fontStyle()?.textContent).toContain('Shared')
+      expect(fontStyle()?.textContent).not.toContain('Own')
+
+      first.unmount()
+      expect(fontStyle()).toBeNull()
+    })
+
+    it('uses the configured style element and duplicate handling', async () => {
+      const fonts = { styleElementId: 'preview-fonts', preventDuplicates: false }
+      const first = mount(App, { props: { html: font('Mail'), mode: RenderMode.Shadow, fonts } })
+      const second = mount(App, { props: { html: font('Mail'), mode: RenderMode.Shadow, fonts } })
+
+      await nextTick()
+
+      expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+      const fontStyle = document.getElementById('preview-fonts')
+      expect(fontStyle?.textContent?.match(/@font-face/g)).toHaveLength(2)
+
+      first.unmount()
+      expect(fontStyle?.textContent?.match(/@font-face/g)).toHaveLength(1)
+      second.unmount()
+      expect(document.getElementById('preview-fonts')).toBeNull()
+    })
+  })
+
+  describe('Font Loading', () => {
+    const font = (family: string) =>
+      `<style>@font-face { font-family: '${family}'; src: url(${family}.woff2); font-weight: 700; }</style><p>Text</p>`
+
+    let loadFont: () => Promise<unknown>
+    const faces: { family: string; source: string; descriptors: object }[] = []
+
+    beforeEach(() => {
+      loadFont = () => Promise.resolve([])
+      faces.length = 0
+      vi.stubGlobal(
+        'FontFace',
+        class {
+          constructor(
+            public family: string,
+            public source: string,
+            public descriptors: object,
+          ) {}
+          load() {
+            return loadFont()
+          }
+        },
+      )
+      Object.defineProperty(document, 'fonts', {
+        configurable: true,
+        value: {
+          add: (face: (typeof faces)[number]) => faces.push(face),
+          delete: (face: (typeof faces)[number]) => faces.splice(faces.indexOf(face), 1),
+          load: () => loadFont(),
+        },
+      })
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      delete (document as unknown as { fonts?: unknown }).fonts
+    })
+
+    it('registers fonts through the FontFace API', async () => {
+      const wrapper = mount(App, {
+        props: { html: font('Brand'), mode: RenderMode.Shadow, fonts: { injection: 'fontface' } },
+      })
+
+      await (wrapper.vm as unknown as { fontsReady: Promise<void> }).fontsReady
+
+      expect(faces).toHaveLength(1)
+      expect(faces[0]).toMatchObject({
+        family: 'Brand',
+        source: 'url(Brand.woff2)',
+        descriptors: { weight: '700' },
+      })
+      expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+      expect(wrapper.emitted('fontsLoaded')).toHaveLength(1)
+
+      wrapper.unmount()
+      expect(faces).toHaveLength(0)
+    })
+
+    it('hoists fonts of linked stylesheets with resolved URLs', async () => {
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        text: async () => "@font-face { font-family: Linked; src: url('../fonts/linked.woff2'); }",
+      }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const html =
+        '<link rel="stylesheet" href="https://cdn.example.com/css/fonts.css"><p>Linked</p>'
+      const wrapper = mount(App, {
+        props: { html, mode: RenderMode.Shadow, fonts: { linkedStylesheets: true } },
+      })
+
+      await (wrapper.vm as unknown as { fontsReady: Promise<void> }).fontsReady
+
+      expect(fetchMock).toHaveBeenCalledExactlyOnceWith('https://cdn.example.com/css/fonts.css')
+      expect(document.getElementById('shadow-dom-fonts')?.textContent).toContain(
+        "url('https://cdn.example.com/fonts/linked.woff2')",
+      )
+      wrapper.unmount()
+
+      // Linked stylesheets aren't fetched unless asked to
+      fetchMock.mockClear()
+      const plain = mount(App, { props: { html, mode: RenderMode.Shadow } })
+      await (plain.vm as unknown as { fontsReady: Promise<void> }).fontsReady
+      expect(fetchMock).not.toHaveBeenCalled()
+      plain.unmount()
+    })
+
+    it('hides the content until fonts have loaded', async () => {
+      let finishLoading!: () => void
+      loadFont = () => new Promise((resolve) => (finishLoading = () => resolve([])))
+
+      const wrapper = mount(App, {
+        props: { html: font('Slow'), mode: RenderMode.Shadow, fonts: { hideUntilLoaded: true } },
+      })
+      const host = () => wrapper.vm.$el as HTMLElement
+
+      await waitFor(10)
+      expect(host().style.visibility).toBe('hidden')
+
+      finishLoading()
+      await (wrapper.vm as unknown as { fontsReady: Promise<void> }).fontsReady
+      expect(host().style.visibility).toBe('')
+      wrapper.unmount()
+    })
+
+    it('reveals the content after the timeout', async () => {
+      loadFont = () => new Promise(() => {})
+
+      const wrapper = mount(App, {
+        props: {
+          html: font('Stuck'),
+          mode: RenderMode.Shadow,
+          fonts: { hideUntilLoaded: true, revealTimeout: 10 },
+        },
+      })
+
+      await nextTick()
+      expect((wrapper.vm.$el as HTMLElement).style.visibility).toBe('hidden')
+
+      await waitFor(30)
+      expect((wrapper.vm.$el as HTMLElement).style.visibility).toBe('')
+      expect(wrapper.emitted('fontsLoaded')).toBeUndefined()
+      wrapper.unmount()
+    })
+  })
+
+  describe('Global At-Rule Hoisting', () => {
+    const css = `
+      /* @font-face { not a rule } */
+      @property --accent { syntax: '<color>'; inherits: true; initial-value: red; }
+      @counter-style thumbs { system: cyclic; symbols: "{"; suffix: " "; }
+      @font-face { font-family: 'Brace'; src: url(data:font/woff2;base64,e30=); }
+      p { content: "@property --fake { }"; }
+    `
+    const html = `<style>${css}</style><p>Text</p>`
+    const hoisted = () => document.getElementById('shadow-dom-fonts')?.textContent ?? ''
+
+    it('only hoists @font-face by default', async () => {
+      const wrapper = mount(App, { props: { html, mode: RenderMode.Shadow } })
+      await nextTick()
+
+      expect(hoisted().match(/@font-face/g)).toHaveLength(1)
+      expect(hoisted()).toContain('url(data:font/woff2;base64,e30=)')
+      expect(hoisted()).not.toContain('@property')
+      expect(hoisted()).not.toContain('not a rule')
+
+      wrapper.unmount()
+    })
+
+    it('hoists opted-in at-rules, ignoring comments and strings', async () => {
+      const wrapper = mount(App, {
+        props: { html, mode: RenderMode.Shadow, hoistAtRules: ['property', 'counter-style'] },
+      })
+      await nextTick()
+
+      expect(hoisted()).toContain('@property --accent')
+      expect(hoisted()).not.toContain('--fake')
+      expect(hoisted()).toContain(
+        '@counter-style thumbs { system: cyclic; symbols: "{"; suffix: " "; }',
+      )
+      expect(hoisted()).not.toContain('@font-face')
+
+      wrapper.unmount()
+      expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+    })
+
+    it('de-duplicates hoisted at-rules across instances', async () => {
+      const props = { html, mode: RenderMode.Shadow, hoistAtRules: ['property' as const] }
+      const first = mount(App, { props })
+      const second = mount(App, { props })
+      await nextTick()
+
+      expect(hoisted().match(/@property/g)).toHaveLength(1)
+
+      first.unmount()
+      expect(hoisted()).toContain('@property --accent')
+      second.unmount()
+      expect(document.getElementById('shadow-dom-fonts')).toBeNull()
+    })
+  })
+
+  describe('Adopted Stylesheets', () => {
+    class FakeStyleSheet {
+      cssText = ''
+      constructor(public options: { media?: string } = {}) {}
+      replaceSync(cssText: string) {
+        this.cssText = cssText
+      }
+    }
+
+    const adopted = (wrapper: { vm: unknown }) =>
+      (
+        (wrapper.vm as { $el: HTMLElement }).$el.shadowRoot as unknown as {
+          adoptedStyleSheets: FakeStyleSheet[]
+        }
+      ).adoptedStyleSheets
+
+    beforeEach(() => {
+      vi.stubGlobal('CSSStyleSheet', FakeStyleSheet)
+      Object.defineProperty(ShadowRoot.prototype, 'adoptedStyleSheets', {
+        configurable: true,
+        get() {
+          return this.__adopted ?? []
+        },
+        set(sheets) {
+          this.__adopted = sheets
+        },
+      })
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      delete (ShadowRoot.prototype as { adoptedStyleSheets?: unknown }).adoptedStyleSheets
+      clearStyleSheetCache()
+    })
+
+    it('shares style elements between shadow roots as constructed sheets', async () => {
+      const props = {
+        html: '<style>.card { color: red; }</style><p class="card">Card</p>',
+        mode: RenderMode.Shadow,
+        adoptStyleSheets: true,
+      }
+      const first = mount(App, { props })
+      const second = mount(App, { props })
+      await nextTick()
+
+      expect(adopted(first)).toHaveLength(1)
+      expect(adopted(first)[0]!.cssText).toBe('.card { color: red; }')
+      // Same content, same sheet object
+      expect(adopted(second)[0]).toBe(adopted(first)[0])
+      expect(first.vm.$el.shadowRoot.querySelector('style')).toBeNull()
+      expect(first.vm.$el.shadowRoot.querySelector('.card')).toBeTruthy()
+
+      first.unmount()
+      second.unmount()
+    })
+
+    it('fetches same-origin linked stylesheets once and adopts them', async () => {
+      const fetchMock = vi.fn(async () => ({
+        ok: true,
+        text: async () => ".card { background: url('../img/bg.png'); }",
+      }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const props = {
+        html: '<link rel="stylesheet" href="/css/cards.css"><p class="card">Card</p>',
+        mode: RenderMode.Shadow,
+        adoptStyleSheets: true,
+        hostStyleSheets: [':host { --brand: teal; }'],
+      }
+      const first = mount(App, { props })
+      const second = mount(App, { props })
+      await Promise.all(
+        [first, second].map((w) => (w.vm as unknown as { ready: Promise<void> }).ready),
+      )
+
+      expect(fetchMock).toHaveBeenCalledExactlyOnceWith(
+        new URL('/css/cards.css', document.baseURI).href,
+      )
+      for (const wrapper of [first, second]) {
+        const sheets = adopted(wrapper)
+        expect(sheets.map((sheet) => sheet.cssText)).toEqual([
+          ':host { --brand: teal; }',
+          `.card { background: url('${new URL('/img/bg.png', document.baseURI).href}'); }`,
+        ])
+        expect(wrapper.vm.$el.shadowRoot.querySelector('link')).toBeNull()
+      }
+
+      const firstRoot = first.vm.$el.shadowRoot
+      first.unmount()
+      expect(firstRoot.adoptedStyleSheets).toHaveLength(0)
+      second.unmount()
+    })
+
+    it('keeps host sheets first and content sheets in document order', async () => {
+      let respond!: (cssText: string) => void
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(
+          () =>
+            new Promise((resolve) => {
+              respond = (cssText) => resolve({ ok: true, text: async () => cssText })
+            }),
+        ),
+      )
+
+      const wrapper = mount(App, {
+        props: {
+          html: '<style>p { color: red; }</style><link rel="stylesheet" href="/css/late.css"><p>Text</p>',
+          mode: RenderMode.Shadow,
+          adoptStyleSheets: true,
+          hostStyleSheets: [':host { --brand: teal; }'],
+        },
+      })
+      await nextTick()
+
+      const shadowRoot = wrapper.vm.$el.shadowRoot
+      expect(adopted(wrapper).map((sheet) => sheet.cssText)).toEqual([
+        ':host { --brand: teal; }',
+        'p { color: red; }',
+      ])
+      // The link waits for its sheet without being loaded by the browser as well
+      expect(shadowRoot.querySelector('link')!.hasAttribute('rel')).toBe(false)
+
+      respond('p { color: blue; }')
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+      expect(adopted(wrapper).map((sheet) => sheet.cssText)).toEqual([
+        ':host { --brand: teal; }',
+        'p { color: red; }',
+        'p { color: blue; }',
+      ])
+      expect(shadowRoot.querySelector('link')).toBeNull()
+
+      // Sheets that can't be adopted keep all content sheets in the tree, after the host's
+      await wrapper.setProps({
+        html: '<style>p { color: red; }</style><style>@import "a.css";</style><p>Text</p>',
+      })
+      await nextTick()
+      expect(adopted(wrapper)).toHaveLength(0)
+      const styles = shadowRoot.querySelectorAll('style')
+      expect(Array.from(styles, (style: Element) => style.textContent)).toEqual([
+        ':host { --brand: teal; }',
+        'p { color: red; }',
+        '@import "a.css";',
+      ])
+
+      wrapper.unmount()
+    })
+
+    it('falls back to style elements for host sheets without adoptedStyleSheets', async () => {
+      delete (ShadowRoot.prototype as { adoptedStyleSheets?: unknown }).adoptedStyleSheets
+
+      const wrapper = mount(App, {
+        props: {
+          html: '<style>p { color: red; }</style><p>Text</p>',
+          mode: RenderMode.Shadow,
+          adoptStyleSheets: true,
+          hostStyleSheets: [':host { --brand: teal; }'],
+        },
+      })
+      await nextTick()
+
+      const styles = wrapper.vm.$el.shadowRoot.querySelectorAll('style')
+      expect(Array.from(styles, (style: Element) => style.textContent)).toEqual([
+        ':host { --brand: teal; }',
+        'p { color: red; }',
+      ])
+
+      wrapper.unmount()
+    })
+  })
+
+  describe('Host Theme Bridge', () => {
+    it('applies theme custom properties to the host and updates them reactively', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<p style="color: var(--brand)">Themed</p>',
+          mode: RenderMode.Shadow,
+          theme: { brand: '#0a7', '--radius': '8px' },
+        },
+      })
+      await nextTick()
+
+      const host = wrapper.vm.$el as HTMLElement
+      expect(host.style.getPropertyValue('--brand')).toBe('#0a7')
+      expect(host.style.getPropertyValue('--radius')).toBe('8px')
+
+      await wrapper.setProps({ theme: { brand: '#f50' } })
+
+      expect(host.style.getPropertyValue('--brand')).toBe('#f50')
+      expect(host.style.getPropertyValue('--radius')).toBe('')
+      expect(wrapper.emitted('rendered')).toHaveLength(1)
+
+      wrapper.unmount()
+    })
+
+    it('assigns part attributes to matching shadow content', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<h1 part="heading">Title</h1><button>Go</button><a class="button">Link</a>',
+          mode: RenderMode.Shadow,
+          parts: { cta: 'button, a.button', heading: 'h1' },
+        },
+      })
+      await nextTick()
+
+      const root = wrapper.vm.$el.shadowRoot as ShadowRoot
+      expect(root.querySelector('button')?.getAttribute('part')).toBe('cta')
+      expect(root.querySelector('a')?.getAttribute('part')).toBe('cta')
+      expect(root.querySelector('h1')?.getAttribute('part')).toBe('heading')
+
+      await wrapper.setProps({ parts: { action: 'button' } })
+
+      expect(root.querySelector('button')?.getAttribute('part')).toBe('action')
+      expect(root.querySelector('a')?.hasAttribute('part')).toBe(false)
+      // Parts written by the content itself are kept
+      expect(root.querySelector('h1')?.getAttribute('part')).toBe('heading')
+
+      wrapper.unmount()
+    })
+  })
+
+  describe('Component Mounting', () => {
+    const unmounted = vi.fn()
+    const Counter = defineComponent({
+      props: { start: { type: Number, default: 0 } },
+      setup(props) {
+        const theme = inject('theme', 'none')
+        onUnmounted(unmounted)
+        return () => h('span', { class: 'counter' }, `${theme}:${props.start}`)
+      },
+    })
+    const widget = (start: number) =>
+      `<div><vue-widget name="Counter" data-props='{"start": ${start}}'></vue-widget></div>`
+
+    beforeEach(() => unmounted.mockClear())
+
+    it('mounts components on placeholders with the parent app context', async () => {
+      const warn = vi.spyOn(console, 'warn')
+      const wrapper = mount(App, {
+        props: { html: widget(3), components: { Counter } },
+        global: { provide: { theme: 'dark' } },
+      })
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+
+      expect(wrapper.find('vue-widget .counter').text()).toBe('dark:3')
+      // Props are reactive, but the components aren't mounted as reactive objects
+      expect(warn).not.toHaveBeenCalled()
+      warn.mockRestore()
+
+      wrapper.unmount()
+      expect(unmounted).toHaveBeenCalledExactlyOnceWith()
+    })
+
+    it('remounts components on re-render in shadow mode', async () => {
+      const wrapper = mount(App, {
+        props: { html: widget(1), mode: RenderMode.Shadow, components: { Counter } },
+      })
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+
+      const root = wrapper.vm.$el.shadowRoot as ShadowRoot
+      expect(root.querySelector('.counter')?.textContent).toBe('none:1')
+
+      await wrapper.setProps({ html: widget(2) })
+      await waitFor(0)
+
+      expect(unmounted).toHaveBeenCalledExactlyOnceWith()
+      expect(root.querySelectorAll('.counter')).toHaveLength(1)
+      expect(root.querySelector('.counter')?.textContent).toBe('none:2')
+
+      wrapper.unmount()
+    })
+
+    it('leaves placeholders with unknown names or invalid props alone', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const wrapper = mount(App, {
+        props: {
+          html: `<vue-widget name="Missing"></vue-widget><vue-widget name="Counter" data-props="{oops"></vue-widget>`,
+          components: { Counter },
+        },
+      })
+      await (wrapper.vm as unknown as { ready: Promise<void> }).ready
+
+      expect(wrapper.find('.counter').exists()).toBe(false)
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(error).toHaveBeenCalledTimes(1)
+
+      wrapper.unmount()
+      vi.restoreAllMocks()
+    })
+  })
+
+  describe('Slot Injection', () => {
+    const count = ref(1)
+    const mountWithSlot = (props: { html: string; mode?: RenderMode; updateStrategy?: 'morph' }) =>
+      mount(App, {
+        props,
+        slots: { comments: () => h('span', { class: 'live' }, `count ${count.value}`) },
+      })
+    const ready = (wrapper: ReturnType<typeof mountWithSlot>) =>
+      (wrapper.vm as unknown as { ready: Promise<void> }).ready
+
+    beforeEach(() => {
+      count.value = 1
+    })
+
+    it('teleports named slots into data-slot regions and keeps them reactive', async () => {
+      const wrapper = mountWithSlot({
+        html: '<article><p>Server HTML</p><div data-slot="comments"></div></article>',
+        updateStrategy: 'morph',
+      })
+      await ready(wrapper)
+      await nextTick()
+
+      const host = wrapper.find('div').element
+      expect(host.querySelector('[data-slot="comments"] .live')?.textContent).toBe('count 1')
+
+      count.value = 2
+      await nextTick()
+      expect(host.querySelector('.live')?.textContent).toBe('count 2')
+
+      // Morphing keeps the teleported content of the region
+      await wrapper.setProps({
+        html: '<article><p>Updated</p><div data-slot="comments"></div></article>',
+      })
+      await waitFor(0)
+      expect(host.querySelector('p')?.textContent).toBe('Updated')
+      expect(host.querySelectorAll('.live')).toHaveLength(1)
+
+      wrapper.unmount()
+      expect(host.querySelector('.live')).toBeNull()
+    })
+
+    it('projects named slots through native slots in shadow mode', async () => {
+      const wrapper = mountWithSlot({
+        html: '<p>Before</p><slot name="comments"></slot>',
+        mode: RenderMode.Shadow,
+      })
+      await ready(wrapper)
+      await nextTick()
+
+      const host = wrapper.find('div').element
+      const lightDom = host.querySelector(':scope > [slot="comments"]')
+      expect(lightDom?.querySelector('.live')?.textContent).toBe('count 1')
+      expect(host.shadowRoot?.querySelector('.live')).toBeNull()
+
+      await wrapper.setProps({ html: '<p>No slot</p>' })
+      await waitFor(0)
+      expect(host.querySelector('[slot]')).toBeNull()
+
+      wrapper.unmount()
+    })
+  })
+
+  describe('Server-Side Rendering', () => {
+    const renderOnServer = (props: {
+      html: string
+      mode?: RenderMode
+      executeScripts?: boolean
+      nonce?: string
+    }) => renderToString(createSSRApp(App, props))
+
+    // jsdom doesn't parse declarative shadow roots; attach them the way browsers do
+    function attachDeclarativeShadowRoots(root: ParentNode): void {
+      root.querySelectorAll('template[shadowrootmode]').forEach((template) => {
+        const shadow = template.parentElement!.attachShadow({ mode: 'open' })
+        shadow.appendChild((template as HTMLTemplateElement).content)
+        template.remove()
+      })
+    }
+
+    async function hydrate(
+      serverHtml: string,
+      props: { html: string; mode?: RenderMode; executeScripts?: boolean },
+    ) {
+      const container = document.createElement('div')
+      container.innerHTML = serverHtml
+      document.body.appendChild(container)
+      attachDeclarativeShadowRoots(container)
+      const host = container.firstElementChild as HTMLElement
+      const serverNodes = Array.from((host.shadowRoot ?? host).querySelectorAll('p'))
+
+      const onScriptLoaded = vi.fn()
+      const app = createSSRApp(App, { ...props, onScriptLoaded })
+      const vm = app.mount(container) as unknown as { ready: Promise<void> }
+      await vm.ready
+      return { app, container, host, serverNodes, onScriptLoaded }
+    }
+
+    it('renders direct-mode content into the server string with scripts deferred', async () => {
+      const output = await renderOnServer({
+        html: '<p>Indexed</p><script>init()</script><script type="application/ld+json">{}</script>',
+      })
+
+      expect(output).toContain('<p>Indexed</p>')
+      expect(output).toMatch(/<!--html-renderer-ssr:[0-9a-f]{8}-->/)
+      expect(output).toContain('<script type="text/x-html-renderer-deferred">')
+      expect(output).toContain('<script type="application/ld+json">{}</script>')
+    })
+
+    it('sets the nonce on the styles of the server output', async () => {
+      const output = await renderOnServer({
+        html:
+          '<style nonce="stale">p { color: red; }</style>' +
+          '<script>document.head.append("<style>")</script><p>Styled</p>',
+        mode: RenderMode.Shadow,
+        nonce: 'r4nd0m',
+      })
+
+      expect(output).toContain('<style nonce="r4nd0m">p { color: red; }</style>')
+      expect(output).not.toContain('stale')
+      // Script text is left alone
+      expect(output).toContain('document.head.append("<style>")')
+    })
+
+    it('renders shadow-mode content as a declarative shadow root', async () => {
+      const output = await renderOnServer({
+        html: '<html><body><p>Isolated</p></body></html>',
+        mode: RenderMode.Shadow,
+      })
+
+      expect(output).toContain('<template shadowrootmode="open"><html><body><p>Isolated</p>')
+      expect(
+        await renderOnServer({ html: '<p>Sandboxed</p>', mode: RenderMode.Iframe }),
+      ).not.toContain('Sandboxed')
+
+      // Declarative shadow roots can't be closed or assign slots manually
+      for (const shadowRootInit of [{ mode: 'closed' }, { slotAssignment: 'manual' }] as const) {
+        expect(renderServerHtml('<p>Client</p>', RenderMode.Shadow, { shadowRootInit })).toBe('')
+      }
+    })
+
+    it('hydrates direct-mode output, running only the deferred scripts', async () => {
+      const props = {
+        html: '<p>Hydrated</p><script>void 0</script><script type="application/json">{}</script>',
+      }
+      const { app, container, host, serverNodes, onScriptLoaded } = await hydrate(
+        await renderOnServer(props),
+        props,
+      )
+
+      expect(host.querySelector('p')).toBe(serverNodes[0])
+      expect(onScriptLoaded).toHaveBeenCalledTimes(1)
+      expect(onScriptLoaded.mock.calls[0]?.[0].code).toBe('void 0')
+      expect(host.querySelector('script[type="text/x-html-renderer-deferred"]')).toBeNull()
+      expect(host.firstChild?.nodeType).not.toBe(Node.COMMENT_NODE)
+
+      app.unmount()
+      container.remove()
+    })
+
+    it('hydrates declarative shadow roots and restores the document structure', async () => {
+      const props = {
+        html: '<html><head><style>p { color: red; }</style></head><body><p>Shadow</p><script>void 0</script></body></html>',
+        mode: RenderMode.Shadow,
+        executeScripts: true,
+      }
+      const { app, container, host, serverNodes, onScriptLoaded } = await hydrate(
+        await renderOnServer(props),
+        props,
+      )
+
+      const shadow = host.shadowRoot!
+      expect(shadow.querySelector('html > head > style')).not.toBeNull()
+      expect(shadow.querySelector('html > body > p')).toBe(serverNodes[0])
+      expect(onScriptLoaded).toHaveBeenCalledTimes(1)
+
+      app.unmount()
+      container.remove()
+    })
+
+    it('renders stale server output again', async () => {
+      const serverHtml = await renderOnServer({ html: '<p>Old</p>' })
+      const { app, container, host } = await hydrate(serverHtml, { html: '<p>New</p>' })
+
+      expect(host.innerHTML).toBe('<p>New</p>')
+
+      app.unmount()
+      container.remove()
+    })
+  })
+
+  describe('Framework-Agnostic Renderer', () => {
+    it('renders, updates, clears and destroys without Vue', async () => {
+      const host = document.createElement('div')
+      document.body.appendChild(host)
+      const onStatusChange = vi.fn()
+      const renderer = createHtmlRenderer(host, {
+        html: '<p>First</p>',
+        theme: { brand: '#0a7' },
+        onStatusChange,
+      })
+      expect(renderer.status).toBe('idle')
+      expect(host.style.getPropertyValue('--brand')).toBe('#0a7')
+
+      await renderer.render()
+      expect(host.innerHTML).toBe('<p>First</p>')
+      expect(renderer.status).toBe('rendered')
+      expect(onStatusChange.mock.calls.map(([status]) => status)).toContain('rendering')
+
+      // Theme changes are applied without re-rendering
+      const paragraph = host.querySelector('p')
+      await renderer.update({ theme: { brand: '#f50' } })
+      expect(host.querySelector('p')).toBe(paragraph)
+      expect(host.style.getPropertyValue('--brand')).toBe('#f50')
+
+      await renderer.update({ html: '<p>Second</p>' })
+      expect(host.innerHTML).toBe('<p>Second</p>')
+
+      renderer.clear()
+      expect(host.innerHTML).toBe('')
+      expect(renderer.status).toBe('idle')
+
+      renderer.destroy()
+      expect(host.style.getPropertyValue('--brand')).toBe('')
+      await renderer.render('<p>After destroy</p>')
+      expect(host.innerHTML).toBe('')
+      host.remove()
+    })
+
+    it('reports every failed render through its promise, and only the first through ready', async () => {
+      const host = document.createElement('div')
+      document.body.appendChild(host)
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const renderer = createHtmlRenderer(host, {
+        html: '<p>Blocked</p>',
+        trustedTypes: {
+          name: 'test',
+          createHTML: (input: string) => {
+            if (input.includes('Blocked')) throw new Error('blocked')
+            return input
+          },
+        },
+      })
+
+      await expect(renderer.render()).rejects.toThrow('blocked')
+      await expect(renderer.ready).rejects.toThrow('blocked')
+
+      await renderer.render('<p>Allowed</p>')
+      expect(renderer.status).toBe('rendered')
+      expect(host.innerHTML).toBe('<p>Allowed</p>')
+
+      await expect(renderer.update({ html: '<p>Blocked again</p>' })).rejects.toThrow('blocked')
+      expect(renderer.status).toBe('error')
+      // ready keeps the outcome of the first render
+      await expect(renderer.ready).rejects.toThrow('blocked')
+
+      consoleError.mockRestore()
+      renderer.destroy()
+      host.remove()
+    })
+
+    it('switches modes and hands rendered content to mountContent', async () => {
+      const host = document.createElement('div')
+      document.body.appendChild(host)
+      const unmount = vi.fn()
+      const mountContent = vi.fn(() => unmount)
+      const renderer = createHtmlRenderer(host, {
+        html: '<html><body><p>Isolated</p></body></html>',
+        mode: RenderMode.Shadow,
+        mountContent,
+      })
+
+      await renderer.render()
+      expect(renderer.shadowRoot?.querySelector('p')?.textContent).toBe('Isolated')
+      expect(mountContent).toHaveBeenCalledExactlyOnceWith(renderer.shadowRoot)
+
+      await renderer.update({ mode: RenderMode.Direct, html: '<p>Direct</p>' })
+      expect(unmount).toHaveBeenCalledTimes(1)
+      expect(host.querySelector('p')?.textContent).toBe('Direct')
+      expect(mountContent).toHaveBeenLastCalledWith(host)
+
+      renderer.destroy()
+      host.remove()
+    })
+  })
+
+  describe('Custom Element', () => {
+    const whenRendered = (el: Element) =>
+      new Promise((resolve) => el.addEventListener('rendered', resolve, { once: true }))
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it('renders the html attribute and dispatches the component events', async () => {
+      registerHtmlRenderer()
+      const el = document.createElement('html-renderer')
+      el.setAttribute('mode', 'shadow')
+      el.setAttribute('html', '<p>Custom</p>')
+      const rendered = whenRendered(el)
+      document.body.appendChild(el)
+      await rendered
+
+      expect(el).toBeInstanceOf(HtmlRendererElement)
+      const host = el.shadowRoot?.querySelector('div')
+      expect(host?.shadowRoot?.querySelector('p')?.textContent).toBe('Custom')
+
+      // Properties work as well as attributes
+      const updated = whenRendered(el)
+      ;(el as unknown as { html: string }).html = '<p>Property</p>'
+      await updated
+      expect(host?.shadowRoot?.querySelector('p')?.textContent).toBe('Property')
+      el.remove()
+    })
+
+    it('fetches src and renders direct mode next to the element', async () => {
+      const fetchMock = vi.fn(async () => ({ ok: true, text: async () => '<p>Fetched</p>' }))
+      vi.stubGlobal('fetch', fetchMock)
+      registerHtmlRenderer('fetching-renderer')
+
+      const el = document.createElement('fetching-renderer')
+      el.setAttribute('src', '/fragment.html')
+      document.body.appendChild(el)
+      // Nothing is rendered until the content has been fetched
+      await vi.waitFor(() => {
+        expect(el.nextElementSibling?.querySelector('p')?.textContent).toBe('Fetched')
+      })
+
+      expect(el.nextElementSibling?.hasAttribute('data-html-render-target')).toBe(true)
+      expect(fetchMock).toHaveBeenCalledExactlyOnceWith('/fragment.html', expect.anything())
+      el.remove()
+    })
+  })
+
+  describe('Loading from src', () => {
+    const response = (html: string, init: { status?: number; etag?: string } = {}) => ({
+      ok: (init.status ?? 200) < 300,
+      status: init.status ?? 200,
+      url: '',
+      headers: new Headers(init.etag ? { ETag: init.etag } : {}),
+      text: async () => html,
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      clearHtmlSourceCache()
+    })
+
+    it('shows the loading slot, then renders with URLs resolved against src', async () => {
+      let respond!: (value: ReturnType<typeof response>) => void
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(() => new Promise((resolve) => (respond = resolve))),
+      )
+
+      const wrapper = mount(App, {
+        props: { src: 'https://cdn.example.com/mail/index.html' },
+        slots: { loading: () => 'Loading…' },
+        attachTo: document.body,
+      })
+      await nextTick()
+      expect(wrapper.text()).toContain('Loading…')
+
+      respond(
+        response(
+          '<img src="logo.png" srcset="a.png 1x, /b.png 2x"><a href="#top">Top</a>' +
+            '<style>.x { background: url(img/bg.png) }</style>',
+        ),
+      )
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toBeTruthy())
+
+      const host = wrapper.vm.$el as HTMLElement
+      expect(host.querySelector('img')?.getAttribute('src')).toBe(
+        'https://cdn.example.com/mail/logo.png',
+      )
+      expect(host.querySelector('img')?.getAttribute('srcset')).toBe(
+        'https://cdn.example.com/mail/a.png 1x, https://cdn.example.com/b.png 2x',
+      )
+      expect(host.querySelector('a')?.getAttribute('href')).toBe('#top')
+      expect(host.querySelector('style')?.textContent).toContain(
+        'url(https://cdn.example.com/mail/img/bg.png)',
+      )
+      expect(wrapper.text()).not.toContain('Loading…')
+      wrapper.unmount()
+    })
+
+    it('revalidates cached responses with their ETag', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(response('<p>Cached</p>', { etag: '"v1"' }))
+        .mockResolvedValueOnce(response('', { status: 304 }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const wrapper = mount(App, { props: { src: '/cached.html' } })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      // A mode switch re-renders, loading the content again
+      await wrapper.setProps({ mode: RenderMode.Shadow })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(2))
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock.mock.calls[0]?.[1].headers).toBeUndefined()
+      expect(fetchMock.mock.calls[1]?.[1].headers).toEqual({ 'If-None-Match': '"v1"' })
+      const shadowRoot = (wrapper.vm.$el as HTMLElement).shadowRoot
+      expect(shadowRoot?.querySelector('p')?.textContent).toBe('Cached')
+      wrapper.unmount()
+    })
+
+    it('keeps only the most recently used responses cached', async () => {
+      const fetchMock = vi.fn(async (url: string, init: RequestInit) =>
+        init.headers ? response('', { status: 304 }) : response(url, { etag: `"${url}"` }),
+      )
+      vi.stubGlobal('fetch', fetchMock)
+      const revalidated = async (url: string) => {
+        fetchMock.mockClear()
+        await fetchHtml(url)
+        return fetchMock.mock.calls[0]?.[1].headers !== undefined
+      }
+
+      for (let i = 0; i < 50; i++) await fetchHtml(`/page-${i}.html`)
+      // Using the first page again makes the second one the least recently used
+      expect(await revalidated('/page-0.html')).toBe(true)
+      await fetchHtml('/page-50.html')
+
+      expect(await revalidated('/page-1.html')).toBe(false)
+      expect(await revalidated('/page-0.html')).toBe(true)
+    })
+
+    it('aborts the pending request on src change and shows the error slot', async () => {
+      const signals: AbortSignal[] = []
+      const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+        signals.push(init.signal!)
+        if (url === '/slow.html') return new Promise(() => {})
+        return response('', { status: 404 })
+      })
+      vi.stubGlobal('fetch', fetchMock)
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const wrapper = mount(App, {
+        props: { src: '/slow.html' },
+        slots: { error: ({ error }: { error?: unknown }) => `Failed: ${(error as Error).message}` },
+      })
+      await nextTick()
+      await wrapper.setProps({ src: '/missing.html' })
+
+      await vi.waitFor(() => expect(wrapper.text()).toContain('Failed:'))
+      expect(signals[0]?.aborted).toBe(true)
+      expect(wrapper.text()).toContain('HTTP 404')
+      expect((wrapper.vm as unknown as { status: string }).status).toBe('error')
+
+      consoleSpy.mockRestore()
+      wrapper.unmount()
+    })
+  })
+
+  describe('URL Rewriting', () => {
+    const baseUrl = 'https://mail.example.com/campaign/'
+
+    it('resolves against baseUrl and passes every URL through rewriteUrl in direct mode', async () => {
+      const rewriteUrl = vi.fn((url: string, { kind }: IUrlRewriteContext) =>
+        kind === 'script' ? 'data:text/javascript,void 0' : `https://proxy.test/?u=${url}`,
+      )
+      const html =
+        '<img src="img/a.png" srcset="img/a2.png 2x"><a href="#top">Top</a>' +
+        `<div style="background: url('bg.png')"></div><script src="app.js"></script>`
+      const wrapper = mount(App, {
+        props: { html, baseUrl, rewriteUrl, updateStrategy: 'morph' },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      const host = wrapper.vm.$el as HTMLElement
+      const img = host.querySelector('img')
+      expect(img?.getAttribute('src')).toBe(`https://proxy.test/?u=${baseUrl}img/a.png`)
+      expect(img?.getAttribute('srcset')).toBe(`https://proxy.test/?u=${baseUrl}img/a2.png 2x`)
+      expect(host.querySelector('a')?.getAttribute('href')).toBe('#top')
+      expect(host.querySelector('div')?.getAttribute('style')).toContain(
+        `url('https://proxy.test/?u=${baseUrl}bg.png')`,
+      )
+      expect(host.querySelector('script')?.getAttribute('src')).toBe('data:text/javascript,void 0')
+      expect(rewriteUrl.mock.calls).toContainEqual([
+        `${baseUrl}app.js`,
+        { element: expect.any(HTMLScriptElement), attribute: 'src', kind: 'script' },
+      ])
+      expect(wrapper.emitted('scriptLoaded')).toHaveLength(1)
+
+      // Morphing compares scripts by their original src, so the script doesn't run again
+      await wrapper.setProps({ html: `${html}<p>More</p>` })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(2))
+      expect(host.querySelector('p')?.textContent).toBe('More')
+      expect(wrapper.emitted('scriptLoaded')).toHaveLength(1)
+      wrapper.unmount()
+    })
+
+    it('rewrites style and hoisted @font-face URLs in shadow mode', async () => {
+      const kinds: string[] = []
+      const host = document.createElement('div')
+      document.body.appendChild(host)
+      const renderer = createHtmlRenderer(host, {
+        html:
+          '<base href="../assets/"><style>@font-face { font-family: Mail; src: url(mail.woff2) }' +
+          ' .hero { background: url(hero.png) }</style><p class="hero">Hi</p>',
+        mode: RenderMode.Shadow,
+        baseUrl,
+        rewriteUrl: (url, { kind }) => {
+          kinds.push(kind)
+          return url
+        },
+      })
+      await renderer.render()
+
+      const style = renderer.shadowRoot?.querySelector('style')?.textContent
+      expect(style).toContain('url(https://mail.example.com/assets/hero.png)')
+      expect(renderer.shadowRoot?.querySelector('base')).toBeNull()
+      expect(document.getElementById('shadow-dom-fonts')?.textContent).toContain(
+        'url(https://mail.example.com/assets/mail.woff2)',
+      )
+      expect(kinds).toEqual(['font', 'image'])
+
+      // Rewriting needs a DOM, so such content is rendered on the client only
+      expect(renderServerHtml('<p>Hi</p>', RenderMode.Direct, { baseUrl })).toBe('')
+
+      renderer.destroy()
+      host.remove()
+    })
+  })
+
+  describe('Script Sandboxing', () => {
+    const widget = (name: string) =>
+      '<p class="out"></p><p id="greeting"></p><script>' +
+      `var config = '${name}'; window.resized = 0; onresize = function () { resized++ };` +
+      "document.querySelector('.out').textContent = config;" +
+      "document.getElementById('greeting').textContent = this === window ? 'sandboxed' : '';" +
+      '</script>'
+
+    it('keeps the globals of sandboxed inline scripts per instance', async () => {
+      const first = mount(App, {
+        props: { html: widget('first'), sandboxScripts: true },
+        attachTo: document.body,
+      })
+      const second = mount(App, {
+        props: { html: widget('second'), sandboxScripts: true },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => {
+        expect(first.emitted('rendered')).toHaveLength(1)
+        expect(second.emitted('rendered')).toHaveLength(1)
+      })
+
+      // Queries only see the instance's own content
+      const firstHost = first.vm.$el as HTMLElement
+      const secondHost = second.vm.$el as HTMLElement
+      expect(firstHost.querySelector('.out')?.textContent).toBe('first')
+      expect(secondHost.querySelector('.out')?.textContent).toBe('second')
+      expect(firstHost.querySelector('#greeting')?.textContent).toBe('sandboxed')
+      expect('config' in window).toBe(false)
+      expect(window.onresize).toBeNull()
+
+      // Handlers assigned by both instances run, each against its own globals
+      window.dispatchEvent(new Event('resize'))
+      expect((getScriptSandbox(firstHost).window as any).resized).toBe(1)
+      expect((getScriptSandbox(secondHost).window as any).resized).toBe(1)
+
+      // Unmounting removes the instance's handlers
+      first.unmount()
+      window.dispatchEvent(new Event('resize'))
+      expect((getScriptSandbox(secondHost).window as any).resized).toBe(2)
+      second.unmount()
+    })
+
+    it('shares top-level function declarations between the scripts of an instance', async () => {
+      const html =
+        '<p class="out"></p>' +
+        "<script>function greet(name) { return 'Hi ' + name } var s = '{'; function* ids() {}</script>" +
+        "<script>document.querySelector('.out').textContent = greet('there')</script>"
+      const wrapper = mount(App, { props: { html, sandboxScripts: true }, attachTo: document.body })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      const host = wrapper.vm.$el as HTMLElement
+      expect(host.querySelector('.out')?.textContent).toBe('Hi there')
+      expect(typeof (getScriptSandbox(host).window as any).ids).toBe('function')
+      expect('greet' in window).toBe(false)
+      expect(wrapper.emitted('scriptError')).toBeUndefined()
+      wrapper.unmount()
+    })
+  })
+
+  describe('Script Side Effects', () => {
+    let effects: { resizes: string[]; unmounted: string[]; ticks: number; mutations: number }
+
+    beforeEach(() => {
+      effects = { resizes: [], unmounted: [], ticks: 0, mutations: 0 }
+      ;(document as any).__effects = effects
+    })
+
+    afterEach(() => {
+      delete (document as any).__effects
+    })
+
+    it('removes the listeners scripts added once their instance is unmounted', async () => {
+      const widget = (name: string) =>
+        '<script>' +
+        `window.addEventListener('resize', function () { document.__effects.resizes.push('${name}') });` +
+        "window.addEventListener('html-renderer:unmount', function (event) {" +
+        `  document.__effects.unmounted.push('${name}:' + (event.detail.root instanceof HTMLElement));` +
+        '});</script>'
+      const first = mount(App, {
+        props: { html: widget('first'), trackSideEffects: true },
+        attachTo: document.body,
+      })
+      const second = mount(App, {
+        props: { html: widget('second'), trackSideEffects: true },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => {
+        expect(first.emitted('rendered')).toHaveLength(1)
+        expect(second.emitted('rendered')).toHaveLength(1)
+      })
+
+      window.dispatchEvent(new Event('resize'))
+      expect(effects.resizes).toEqual(['first', 'second'])
+
+      // Only the unmounted instance hears about its unmount
+      first.unmount()
+      expect(effects.unmounted).toEqual(['first:true'])
+      window.dispatchEvent(new Event('resize'))
+      expect(effects.resizes).toEqual(['first', 'second', 'second'])
+
+      second.unmount()
+      expect(effects.unmounted).toEqual(['first:true', 'second:true'])
+      window.dispatchEvent(new Event('resize'))
+      expect(effects.resizes).toHaveLength(3)
+    })
+
+    it('cancels timers started by scripts and their callbacks, and disconnects observers', async () => {
+      // Sandboxed scripts reach the timers through this window, which jsdom doesn't share
+      const html =
+        '<script>' +
+        'setTimeout(function tick() { document.__effects.ticks++; setTimeout(tick, 5) }, 5);' +
+        'new MutationObserver(function () { document.__effects.mutations++ })' +
+        '  .observe(document.body, { childList: true });' +
+        '</script>'
+      const wrapper = mount(App, {
+        props: { html, sandboxScripts: true, trackSideEffects: true },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      // The chained timeout was started by a timer callback, and is tracked as well
+      await vi.waitFor(() => expect(effects.ticks).toBeGreaterThanOrEqual(2))
+      document.body.appendChild(document.createElement('span'))
+      await vi.waitFor(() => expect(effects.mutations).toBe(1))
+
+      wrapper.unmount()
+      const ticks = effects.ticks
+      document.body.appendChild(document.createElement('span'))
+      await waitFor(30)
+      expect(effects.ticks).toBe(ticks)
+      expect(effects.mutations).toBe(1)
+    })
+
+    it('forgets timeouts with code strings once they fired', async () => {
+      const root = document.createElement('div')
+      // Node's timers don't take code strings as browsers do
+      const schedule = window.setTimeout
+      const setTimeout = vi
+        .spyOn(window, 'setTimeout')
+        .mockImplementation(((handler: TimerHandler, timeout?: number) =>
+          schedule(typeof handler === 'string' ? new Function(handler) : handler, timeout)) as any)
+      // Installed by the first tracked call, the spies are what the wrappers call
+      const clearTimeout = vi.spyOn(window, 'clearTimeout')
+      runWithSideEffectTracking(root, () => {
+        window.setTimeout('document.__effects.ticks++', 5)
+        window.setTimeout('document.__effects.mutations++', 5)
+      })
+      await vi.waitFor(() => expect(effects.mutations).toBe(1))
+      expect(effects.ticks).toBe(1)
+      await waitFor(10)
+
+      clearTimeout.mockClear()
+      disposeSideEffects(root)
+      expect(clearTimeout).not.toHaveBeenCalled()
+      setTimeout.mockRestore()
+      clearTimeout.mockRestore()
+    })
+
+    it('lets once listeners be added again after they fired', async () => {
+      const html =
+        '<script>window.addEventListener("resize", function listen() {' +
+        '  document.__effects.resizes.push("once");' +
+        '  window.addEventListener("resize", listen, { once: true });' +
+        '}, { once: true })</script>'
+      const wrapper = mount(App, {
+        props: { html, trackSideEffects: true },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      window.dispatchEvent(new Event('resize'))
+      window.dispatchEvent(new Event('resize'))
+      expect(effects.resizes).toEqual(['once', 'once'])
+
+      wrapper.unmount()
+      window.dispatchEvent(new Event('resize'))
+      expect(effects.resizes).toHaveLength(2)
+    })
+
+    it('leaves the page APIs alone unless trackSideEffects is set', async () => {
+      const { addEventListener } = EventTarget.prototype
+      const html = '<script>document.__effects.ticks++</script>'
+      const wrapper = mount(App, { props: { html }, attachTo: document.body })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      expect(EventTarget.prototype.addEventListener).toBe(addEventListener)
+      expect(effects.ticks).toBe(1)
+      wrapper.unmount()
+    })
+  })
+
+  describe('Script Loading', () => {
+    let server: Server
+    let origin: string
+    let failures: number
+    const hung: ServerResponse[] = []
+
+    beforeAll(async () => {
+      // /hang never answers, /fail answers with an error, /slow with a script after 150ms,
+      // /ok.js with a script
+      server = createServer((request, response) => {
+        if (request.url === '/slow') {
+          setTimeout(() => {
+            response.writeHead(200, { 'Content-Type': 'text/javascript' })
+            response.end('document.__loaded.push("slow")')
+          }, 150)
+          return
+        }
+        if (request.url === '/hang') {
+          hung.push(response)
+          return
+        }
+        if (request.url === '/fail') {
+          failures++
+          response.writeHead(500).end()
+          return
+        }
+        response.writeHead(200, { 'Content-Type': 'text/javascript' })
+        response.end('document.__loaded.push("ok")')
+      })
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+      origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      server.closeAllConnections()
+      await new Promise((resolve) => server.close(resolve))
+    })
+
+    beforeEach(() => {
+      failures = 0
+      ;(document as any).__loaded = []
+    })
+
+    afterEach(() => {
+      delete (document as any).__loaded
+    })
+
+    it('reports a hung script as timed out and continues with the next scripts', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html:
+            `<script src="${origin}/hang" data-timeout="50"></script>` +
+            '<script>document.__loaded.push("next")</script>',
+          scriptLoading: { timeout: 10_000 },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      const [meta, error] = wrapper.emitted('scriptError')![0] as [IScriptMeta, ScriptLoadError]
+      expect(meta.attrs.src).toBe(`${origin}/hang`)
+      expect(error).toBeInstanceOf(ScriptLoadError)
+      expect(error.reason).toBe('timeout')
+      expect(wrapper.emitted('scriptLoaded')).toHaveLength(1)
+
+      // jsdom executes a document's scripts in order, so the inline script waits for the
+      // hung request (browsers run it right away); a late failure isn't reported again
+      hung.splice(0).forEach((response) => response.writeHead(500).end())
+      await vi.waitFor(() => expect((document as any).__loaded).toEqual(['next']))
+      expect(wrapper.emitted('scriptError')).toHaveLength(1)
+      wrapper.unmount()
+    })
+
+    it('retries failed scripts with backoff before falling back to data-fallback-src', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: `<script src="${origin}/fail" data-fallback-src="${origin}/ok.js"></script>`,
+          scriptLoading: { retries: 1, retryDelay: 10 },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1), {
+        timeout: 3000,
+      })
+
+      expect(failures).toBe(2)
+      expect((document as any).__loaded).toEqual(['ok'])
+      expect(wrapper.emitted('scriptLoaded')).toHaveLength(1)
+      expect(wrapper.emitted('scriptError')).toBeUndefined()
+      // A single script is left in place of the attempts
+      const scripts = (wrapper.vm.$el as HTMLElement).querySelectorAll('script')
+      expect(Array.from(scripts, (s) => s.getAttribute('src'))).toEqual([`${origin}/ok.js`])
+      wrapper.unmount()
+    })
+
+    it('reports the last failure once every attempt failed', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: `<script src="${origin}/fail" data-retries="2"></script>`,
+          scriptLoading: { retryDelay: 5 },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1), {
+        timeout: 3000,
+      })
+
+      expect(failures).toBe(3)
+      const errors = wrapper.emitted('scriptError') as [IScriptMeta, ScriptLoadError][]
+      expect(errors).toHaveLength(1)
+      expect(errors[0]![1].reason).toBe('network')
+      wrapper.unmount()
+    })
+
+    it('refuses a fallback the script policy does not allow', async () => {
+      const fallback = 'https://evil.example.com/x.js'
+      const wrapper = mount(App, {
+        props: {
+          html: `<script src="${origin}/fail" data-fallback-src="${fallback}"></script>`,
+          scriptPolicy: { allowedSources: [origin] },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      expect(failures).toBe(1)
+      const [blockedMeta, reason] = wrapper.emitted('scriptBlocked')![0] as [IScriptMeta, string]
+      expect(blockedMeta.attrs.src).toBe(fallback)
+      expect(reason).toBe('source')
+      const [, error] = wrapper.emitted('scriptError')![0] as [IScriptMeta, ScriptLoadError]
+      expect(error.reason).toBe('network')
+      expect(error.src).toBe(`${origin}/fail`)
+      wrapper.unmount()
+    })
+
+    it('runs the fallback through beforeScriptExecute with its URL resolved', async () => {
+      const checked: string[] = []
+      const wrapper = mount(App, {
+        props: {
+          html: `<script src="${origin}/fail" data-fallback-src="ok.js"></script>`,
+          baseUrl: `${origin}/scripts/`,
+          scriptPolicy: {
+            beforeScriptExecute: (meta) => {
+              checked.push(meta.attrs.src!)
+              return !meta.attrs.src!.endsWith('/ok.js')
+            },
+          },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      expect(checked).toEqual([`${origin}/fail`, `${origin}/scripts/ok.js`])
+      expect(wrapper.emitted('scriptBlocked')![0]![1]).toBe('hook')
+      expect((document as any).__loaded).toEqual([])
+      wrapper.unmount()
+    })
+
+    it('checks allowed sources against the baseUrl scripts load from', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: '<script src="ok.js"></script>',
+          baseUrl: `${origin}/scripts/`,
+          scriptPolicy: { allowedSources: [origin] },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      expect(wrapper.emitted('scriptBlocked')).toBeUndefined()
+      expect((document as any).__loaded).toEqual(['ok'])
+      wrapper.unmount()
+    })
+
+    it('loads scripts from the base set by a <base href> of the content', async () => {
+      const rewritten: string[] = []
+      const wrapper = mount(App, {
+        props: {
+          html: `<base href="${origin}/scripts/"><script src="ok.js"></script>`,
+          rewriteUrl: (url: string) => (rewritten.push(url), url),
+          scriptPolicy: { allowedSources: [origin] },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      expect(rewritten).toEqual([`${origin}/scripts/ok.js`])
+      expect(wrapper.emitted('scriptBlocked')).toBeUndefined()
+      expect((document as any).__loaded).toEqual(['ok'])
+      expect((wrapper.vm.$el as HTMLElement).querySelector('base')).toBeNull()
+      wrapper.unmount()
+    })
+
+    it('never runs a timed-out script next to its retry', async () => {
+      const wrapper = mount(App, {
+        props: {
+          html: `<script src="${origin}/slow" data-timeout="50"></script>`,
+          scriptLoading: { retries: 1, retryDelay: 10 },
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1), {
+        timeout: 3000,
+      })
+
+      // Both attempts time out; the responses arrive afterwards
+      await new Promise((resolve) => setTimeout(resolve, 400))
+      expect((document as any).__loaded).toEqual([])
+      expect(wrapper.emitted('scriptError')).toHaveLength(1)
+      expect((wrapper.vm.$el as HTMLElement).querySelectorAll('script')).toHaveLength(0)
+      wrapper.unmount()
+    })
+  })
+
+  describe('Content Security Policy', () => {
+    const blocked = (type: string) => new TypeError(`This document requires '${type}' assignment.`)
+
+    it('sets the nonce on recreated scripts and on the styles of the content', async () => {
+      const html =
+        '<style>p { color: red; }</style><p>Hi</p>' +
+        '<script nonce="from-content">document.__cspRan = true</script>'
+      const direct = mount(App, { props: { html, nonce: 'n0nce' }, attachTo: document.body })
+      await vi.waitFor(() => expect(direct.emitted('rendered')).toHaveLength(1))
+
+      const host = direct.vm.$el as HTMLElement
+      expect(host.querySelector('style')?.getAttribute('nonce')).toBe('n0nce')
+      expect(host.querySelector('script')?.getAttribute('nonce')).toBe('n0nce')
+      expect((document as any).__cspRan).toBe(true)
+
+      const shadow = mount(App, {
+        props: { html, nonce: 'n0nce', mode: RenderMode.Shadow, executeScripts: true },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(shadow.emitted('rendered')).toHaveLength(1))
+
+      const root = (shadow.vm.$el as HTMLElement).shadowRoot!
+      expect(root.querySelector('style')?.getAttribute('nonce')).toBe('n0nce')
+      expect(root.querySelector('script')?.getAttribute('nonce')).toBe('n0nce')
+
+      direct.unmount()
+      shadow.unmount()
+      delete (document as any).__cspRan
+    })
+
+    it('passes the HTML and script sinks through the Trusted Types policy', async () => {
+      const policy = {
+        name: 'test',
+        createHTML: vi.fn((input: string) => input),
+        createScript: vi.fn((input: string) => input),
+        createScriptURL: vi.fn((input: string) => input),
+      }
+      const html = '<p>Trusted</p><script>document.__cspRan = true</script>'
+      const wrapper = mount(App, {
+        props: { html, trustedTypes: policy },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      expect(policy.createHTML).toHaveBeenCalledExactlyOnceWith(html)
+      expect(policy.createScript).toHaveBeenCalledExactlyOnceWith('document.__cspRan = true')
+      expect((document as any).__cspRan).toBe(true)
+
+      wrapper.unmount()
+      delete (document as any).__cspRan
+    })
+
+    it('sanitizes HTML in the named policy when sanitize is set', async () => {
+      const vouched: string[] = []
+      ;(window as any).trustedTypes = {
+        createPolicy: (name: string, rules: Record<string, (...args: any[]) => string>) => ({
+          name,
+          createHTML(input: string, ...args: unknown[]) {
+            const html = rules.createHTML!(input, ...args)
+            vouched.push(html)
+            return html
+          },
+          createScript: (input: string) => rules.createScript!(input),
+          createScriptURL: (input: string) => rules.createScriptURL!(input),
+        }),
+      }
+      const html = '<p>Hi</p><img src="x.png" onerror="document.__cspRan = true">'
+      const wrapper = mount(App, {
+        props: { html, sanitize: 'strict', trustedTypes: 'sanitizing-policy' },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      // The sanitizer parses through the policy itself, which passes that call through
+      expect(vouched).toContain(html)
+      expect(vouched[vouched.length - 1]).toContain('<p>Hi</p>')
+      expect(vouched[vouched.length - 1]).not.toContain('onerror')
+      expect(wrapper.vm.$el.innerHTML).not.toContain('onerror')
+      wrapper.unmount()
+
+      // Without sanitize, the policy vouches for the HTML as it is
+      vouched.length = 0
+      const plain = mount(App, {
+        props: { html: '<p>Plain</p>', trustedTypes: 'sanitizing-policy' },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(plain.emitted('rendered')).toHaveLength(1))
+      expect(vouched).toEqual(['<p>Plain</p>'])
+      plain.unmount()
+      delete (window as any).trustedTypes
+    })
+
+    it('reports what Trusted Types blocked as ContentSecurityPolicyError', async () => {
+      const policy = {
+        name: 'test',
+        createHTML: (input: string) => input,
+        createScript: () => {
+          throw blocked('TrustedScript')
+        },
+      }
+      const wrapper = mount(App, {
+        props: {
+          html: '<p>Kept</p><script>document.__cspRan = true</script>',
+          trustedTypes: policy,
+        },
+        attachTo: document.body,
+      })
+      await vi.waitFor(() => expect(wrapper.emitted('rendered')).toHaveLength(1))
+
+      const [meta, error] = wrapper.emitted('scriptError')![0] as [IScriptMeta, unknown]
+      expect(meta.code).toBe('document.__cspRan = true')
+      expect(error).toBeInstanceOf(ContentSecurityPolicyError)
+      expect((error as ContentSecurityPolicyError).directive).toBe('require-trusted-types-for')
+      expect((document as any).__cspRan).toBeUndefined()
+      expect(wrapper.vm.$el.innerHTML).toBe('<p>Kept</p>')
+      wrapper.unmount()
+
+      // Without HTML that passes the policy, nothing is rendered
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const rejected = mount(App, {
+        props: {
+          html: '<p>Blocked</p>',
+          trustedTypes: {
+            name: 'test',
+            createHTML: () => {
+              throw blocked('TrustedHTML')
+            },
+          },
+        },
+        attachTo: document.body,
+      })
+      const ready = (rejected.vm as unknown as { ready: Promise<void> }).ready
+      await expect(ready).rejects.toBeInstanceOf(ContentSecurityPolicyError)
+      expect(rejected.vm.$el.innerHTML).toBe('')
+      consoleError.mockRestore()
+      rejected.unmount()
+    })
+  })
+
   describe('Edge Cases and Error Handling', () => {
     it('handles empty HTML string', async () => {
       const wrapper = mount(App, {
@@ -459,8 +2778,7 @@ describe('VueHTMLRenderer - Comprehensive Test Suite', () => {
       let hostEl = wrapper.vm.$el as HTMLElement
       expect(hostEl.shadowRoot).toBeNull()
 
-      // Note: Component doesn't reactively switch modes
-      // This tests that both modes work independently
+      // This tests that both modes work independently across mounts
       wrapper.unmount()
 
       // Mount with shadow mode
@@ -0,0 +1,98 @@
+/**
+ * Component Mounting for Rendered HTML
+ *
+ * Rendered HTML (e.g. from a CMS) can contain placeholders for Vue components:
+ *
+ * ```html
+ * <vue-widget name="Chart" data-props='{"series": [1, 2, 3]}'></vue-widget>
+ * ```
+ *
+ * This module mounts the registered component for each placeholder, with the
+ * JSON of `data-props` as props. Components are rendered with the host
+ * component's `appContext`, so globally registered components, directives,
+ * plugins and app-level `provide` values are available to them.
+ *
+ * @module componentMounting
+ */
+
+import { createVNode, markRaw, render, toRaw } from 'vue'
+import type { AppContext, Component } from 'vue'
+
+/**
+ * Selector of the placeholder elements components are mounted on.
+ */
+const WIDGET_SELECTOR = 'vue-widget[name]'
+
+/**
+ * Read the props of a placeholder from its `data-props` attribute.
+ *
+ * @returns The props, or null if the attribute isn't a JSON object
+ */
+function readWidgetProps(el: Element): Record<string, unknown> | null {
+  const raw = el.getAttribute('data-props')
+  if (!raw) return {}
+  try {
+    const props: unknown = JSON.parse(raw)
+    return props && typeof props === 'object' && !Array.isArray(props)
+      ? (props as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Mount the registered components on the `<vue-widget name>` placeholders of a root.
+ *
+ * Placeholders with an unknown name or invalid `data-props` are reported and left
+ * as they are.
+ *
+ * @param root - The rendered content (the direct-mode target or the shadow root)
+ * @param components - Components by placeholder name
+ * @param appContext - The app context the components are rendered with
+ * @returns A function that unmounts every component mounted by this call
+ *
+ * @example
+ * ```ts
+ * const unmount = mountComponents(shadowRoot, { Chart }, getCurrentInstance()?.appContext);
+ * // ...before the content is replaced
+ * unmount();
+ * ```
+ */
+export function mountComponents(
+  root: ParentNode,
+  components: Record<string, Component>,
+  appContext?: AppContext,
+): () => void {
+  const mounted: Element[] = []
+
+  root.querySelectorAll(WIDGET_SELECTOR).forEach((el) => {
+    const name = el.getAttribute('name') || ''
+    const component = components[name]
+    if (!component) {
+      console.warn(`componentMounting: no component registered for "${name}"`)
+      return
+    }
+
+    const props = readWidgetProps(el)
+    if (!props) {
+      console.error(`componentMounting: invalid data-props for "${name}"`, el)
+      return
+    }
+
+    // Component maps often come through reactive props; Vue warns about reactive components
+    const vnode = createVNode(markRaw(toRaw(component)), props)
+    vnode.appContext = appContext ?? null
+    try {
+      render(vnode, el)
+      mounted.push(el)
+    } catch (e) {
+      console.error(`componentMounting: failed to mount "${name}"`, e)
+    }
+  })
+
+  return () => {
+    mounted.forEach((el) => render(null, el))
+    mounted.length = 0
+  }
+}
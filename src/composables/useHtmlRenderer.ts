@@ -1,29 +1,64 @@
 /**
  * Unified HTML Renderer Composable
  *
- * This composable provides a unified interface for rendering HTML content with two modes:
+ * This composable provides a unified interface for rendering HTML content with three modes:
  *
- * 1. **Direct Mode** (isShadow=false, default):
+ * 1. **Direct Mode** (`mode: RenderMode.Direct`, default):
  *    - Renders HTML directly into the DOM
  *    - Full script execution support (async, defer, sequential, module)
  *    - No style isolation
  *    - Use when you need JavaScript to run
  *
- * 2. **Shadow Mode** (isShadow=true):
+ * 2. **Shadow Mode** (`mode: RenderMode.Shadow`):
  *    - Renders HTML in isolated Shadow DOM
  *    - Complete style isolation
  *    - Preserves full HTML structure (html, head, body tags)
  *    - Extracts and injects @font-face rules for proper font loading
- *    - No script execution (by design)
+ *    - No script execution by default; opt in with `executeScripts`
  *    - Use when you need style isolation
  *
+ * 3. **Iframe Mode** (`mode: RenderMode.Iframe`):
+ *    - Renders HTML into a sandboxed `srcdoc` iframe
+ *    - Resizes the iframe to its content
+ *    - Typed postMessage bridge (`onMessage`, `postMessage`)
+ *    - Use for untrusted content
+ *
+ * The deprecated `isShadow` flag is still honored when `mode` is not set.
+ *
+ * Instead of `html`, the content can be loaded from a `src` URL (see htmlSource).
+ * Relative URLs of the content can be resolved against a `baseUrl` and rewritten
+ * with a `rewriteUrl` hook (see urlRewriter).
+ *
+ * `html`, `src` and `mode` may be refs or getters; the content is re-rendered
+ * whenever one of them changes. With `updateStrategy: 'morph'`, re-renders patch
+ * the existing DOM in place instead of replacing it.
+ *
  * @module useHtmlRenderer
  */
 
-import { onBeforeUnmount, onMounted, ref } from 'vue'
-import type { IHtmlRendererComposable, IHtmlRendererOptions } from '../extras/types'
-import { clearShadowRoot, renderIntoShadowRoot } from '../renderers/shadowRenderer'
-import { clearElement, renderDirectly } from '../renderers/directRenderer'
+import {
+  computed,
+  getCurrentInstance,
+  inject,
+  onBeforeUnmount,
+  onMounted,
+  ref,
+  shallowRef,
+  ssrContextKey,
+  toValue,
+  watch,
+} from 'vue'
+import { RenderMode } from '../extras/types'
+import type {
+  IHtmlRenderer,
+  IHtmlRendererComposable,
+  IHtmlRendererCoreOptions,
+  IHtmlRendererOptions,
+  RenderStatus,
+} from '../extras/types'
+import { createHtmlRenderer } from '../renderers/htmlRenderer'
+import { renderServerHtml } from '../renderers/serverRenderer'
+import { mountComponents } from './componentMounting'
 
 /**
  * useHtmlRenderer
@@ -32,17 +67,43 @@ import { clearElement, renderDirectly } from '../renderers/directRenderer'
  *
  * **How it works:**
  *
- * Direct Mode (isShadow=false):
- * 1. Attaches to the host element on mount
- * 2. Parses HTML and extracts scripts (replacing with placeholders)
- * 3. Appends content to the host
- * 4. Executes scripts in proper order (sequential, async, defer)
+ * The rendering itself is done by the framework-agnostic createHtmlRenderer (see
+ * htmlRenderer). This composable creates a renderer for the host element on mount,
+ * passes the current values of its reactive options to it, mounts `components` through
+ * its `mountContent` extension point and destroys it on unmount.
+ *
+ * Server-Side Rendering:
+ * - On the server, `serverHtml` holds the host's content: the HTML itself in direct
+ *   mode, a declarative shadow root in shadow mode, with scripts made inert and
+ *   styles carrying `nonce`
+ * - On mount, matching server output is hydrated instead of rendered again: only the
+ *   deferred scripts run (in shadow mode with `executeScripts`), and fonts, stylesheets,
+ *   parts, components and slots are set up as after a render
+ * - Stale server output (different `html` or mode) is replaced by a regular render
+ *
+ * Loading from `src`:
+ * - The HTML is fetched on every render, with relative URLs resolved against `src`
+ * - Responses are cached and revalidated with their ETag, so re-renders are cheap
+ * - `loading` is true while a request is pending; `error` holds why the last one failed
+ * - Changing `src` or unmounting aborts the pending request
+ * - Server-side rendering leaves the host empty; the content is loaded on the client
+ *
+ * Updates:
+ * - `html`, `src` and the mode are watched after mount
+ * - Every change tears down the previous render (recreated scripts and injected
+ *   @font-face rules) before rendering the new content
+ * - Injected @font-face rules are shared with other instances and only removed from
+ *   the document once no instance uses them anymore
+ * - With `updateStrategy: 'morph'`, updates within the same mode patch the existing
+ *   DOM instead, and only new or changed scripts are executed (iframe mode always
+ *   replaces the iframe)
  *
- * Shadow Mode (isShadow=true):
- * 1. Attaches a shadow root to the host element on mount
- * 2. Parses HTML using DOMParser to preserve structure
- * 3. Extracts @font-face rules and injects into main document
- * 4. Imports and appends entire HTML structure to shadow root
+ * Lifecycle:
+ * - `status` moves from `idle` to `rendering` to `rendered` (or `error`) on every render
+ * - `ready` settles with the first render that completes (including its scripts) or
+ *   fails, and doesn't settle again; `status` tracks every re-render
+ * - Hooks (`onBeforeRender`, `onRendered`, `onCleared`, `onScriptLoaded`,
+ *   `onScriptError`, `onScriptBlocked`) report progress and script failures
  *
  * **Usage Examples:**
  *
@@ -50,24 +111,82 @@ import { clearElement, renderDirectly } from '../renderers/directRenderer'
  * // Direct mode with script execution
  * const { hostRef } = useHtmlRenderer({
  *   html: '<div><script>console.log("Hello")</script></div>',
- *   isShadow: false
+ *   mode: RenderMode.Direct
  * });
  *
  * // Shadow mode with style isolation
  * const { hostRef, shadowRoot } = useHtmlRenderer({
  *   html: '<html><head><style>body { color: red; }</style></head><body>Content</body></html>',
- *   isShadow: true
+ *   mode: RenderMode.Shadow
  * });
+ *
+ * // Sandboxed iframe talking to the host
+ * const { hostRef, postMessage } = useHtmlRenderer({
+ *   html: untrustedHtml,
+ *   mode: RenderMode.Iframe,
+ *   iframe: { sandbox: 'allow-scripts allow-forms' },
+ *   onMessage: ({ type, payload }) => console.log(type, payload),
+ * });
+ *
+ * // Reactive content: re-renders whenever `payload` changes
+ * const payload = ref('<div>First</div>');
+ * const { hostRef } = useHtmlRenderer({ html: payload });
+ *
+ * // Content loaded from a URL
+ * const { hostRef, loading, error } = useHtmlRenderer({ src: '/fragments/coupon.html' });
  * ```
  *
  * @param options - Configuration options
- * @param options.html - The HTML string to render
- * @param options.isShadow - Whether to use Shadow DOM mode (default: false)
+ * @param options.html - The HTML string (or TrustedHTML) to render (value, ref or getter)
+ * @param options.src - URL to load the HTML from instead (string, ref or getter)
+ * @param options.baseUrl - URL relative URLs of the content resolve against (default: `src`)
+ * @param options.rewriteUrl - Rewrites every URL of the content (not in iframe mode)
+ * @param options.mode - The rendering mode (default: RenderMode.Direct; value, ref or getter)
+ * @param options.isShadow - Deprecated alias for `mode: RenderMode.Shadow`
+ * @param options.iframe - Iframe configuration for iframe mode (sandbox flags, auto-resize)
+ * @param options.shadowRootInit - Options for `attachShadow` (default: `{ mode: 'open' }`)
+ * @param options.fonts - Font injection options (style element, strategy, linked stylesheets,
+ *   hiding content until fonts have loaded)
+ * @param options.hoistAtRules - At-rule types hoisted into the main document in shadow mode
+ *   (default: ['font-face'])
+ * @param options.adoptStyleSheets - Share content stylesheets between shadow roots through
+ *   `adoptedStyleSheets` (default: false)
+ * @param options.hostStyleSheets - Host-app stylesheets adopted into every shadow root
+ * @param options.theme - CSS custom properties set on the host (value, ref or getter)
+ * @param options.parts - Part names mapped to selectors, assigned in shadow mode for `::part()`
+ * @param options.components - Components mounted on `<vue-widget name>` placeholders of the content
+ * @param options.slotNames - Names of the regions to resolve into `slotTargets` after each render
+ * @param options.updateStrategy - How re-renders update existing content (default: 'replace')
+ * @param options.sanitize - Sanitizer preset or configuration applied before insertion (default: false)
+ * @param options.scriptPolicy - Which scripts may run (default: all)
+ * @param options.scriptLoading - Timeouts, retries and fallbacks for external scripts
+ * @param options.executeScripts - Whether scripts run in shadow mode (default: false)
+ * @param options.sandboxScripts - Whether inline scripts run with their own globals (default: false)
+ * @param options.trackSideEffects - Whether timers, listeners and observers of scripts are cancelled on clear (default: false)
+ * @param options.nonce - The page's CSP nonce, for recreated scripts and inserted styles (and
+ *   the styles of the server output)
+ * @param options.trustedTypes - Trusted Types policy (name or object) for every HTML and script sink
+ * @param options.onScriptBlocked - Called for every script blocked by the script policy
+ * @param options.onScriptLoaded - Called when a script has loaded or executed
+ * @param options.onScriptError - Called when a script fails to load or throws
+ * @param options.onBeforeRender - Called right before content is rendered
+ * @param options.onRendered - Called when rendering, including scripts, has finished
+ * @param options.onCleared - Called after rendered content was removed
+ * @param options.onFontsLoaded - Called once the fonts of a render have loaded or failed
+ * @param options.onMessage - Called for messages sent by iframe-mode content
  *
  * @returns Object containing:
  * - hostRef: Template ref to bind to a container element
  * - clear: Function to remove all rendered content
- * - shadowRoot: Ref to shadow root (only in shadow mode)
+ * - shadowRoot: Ref to shadow root (set once shadow mode has been rendered; never for closed roots)
+ * - ready: Promise that settles with the first render that completes or fails
+ * - status: Ref with the current render status
+ * - loading: Ref that is true while the HTML of `src` is loading
+ * - error: Ref with why loading `src` failed
+ * - fontsReady: Promise that resolves once the fonts of the first render have loaded
+ * - postMessage: Function to send a message to iframe-mode content
+ * - slotTargets: Ref with the elements to teleport slot content into, by slot name
+ * - serverHtml: Ref with the host's content during server-side rendering
  *
  * @example
  * ```vue
@@ -80,162 +199,222 @@ import { clearElement, renderDirectly } from '../renderers/directRenderer'
  *
  * const { hostRef } = useHtmlRenderer({
  *   html: '<div>Content</div>',
- *   isShadow: false
+ *   mode: RenderMode.Direct
  * });
  * </script>
  * ```
  */
 export function useHtmlRenderer(options: IHtmlRendererOptions): IHtmlRendererComposable {
-  const { html, isShadow = false } = options
+  const {
+    html,
+    src,
+    baseUrl,
+    rewriteUrl,
+    mode,
+    isShadow = false,
+    iframe,
+    shadowRootInit,
+    fonts,
+    hoistAtRules,
+    adoptStyleSheets = false,
+    hostStyleSheets,
+    theme,
+    parts,
+    components,
+    slotNames,
+    updateStrategy = 'replace',
+    sanitize = false,
+    scriptPolicy,
+    scriptLoading,
+    executeScripts = false,
+    sandboxScripts = false,
+    trackSideEffects = false,
+    nonce,
+    trustedTypes,
+    ...hooks
+  } = options
 
   const hostRef = ref<HTMLElement>()
   const shadowRoot = ref<ShadowRoot>()
-  // When used inside a Custom Element (ShadowRoot), render into a light-DOM sibling container
-  // placed adjacent to the custom element host. Otherwise render into the internal host div.
-  const targetRef = ref<HTMLElement>()
+  const status = ref<RenderStatus>('idle')
+  const loading = ref(false)
+  const error = shallowRef<unknown>()
+  // Elements slot content is teleported into, by slot name
+  const slotTargets = shallowRef<Record<string, Element>>({})
+  // Created on mount, destroyed on unmount
+  let renderer: IHtmlRenderer | undefined
 
-  /**
-   * Get the target element for rendering.
-   * Returns targetRef if set (for Custom Element scenarios), otherwise hostRef.
-   */
-  function getTargetEl(): HTMLElement | undefined {
-    return targetRef.value ?? hostRef.value
-  }
+  // `ready` and `fontsReady` exist before the renderer does; they follow its promises
+  let resolveReady!: () => void
+  let rejectReady!: (reason: unknown) => void
+  const ready = new Promise<void>((resolve, reject) => {
+    resolveReady = resolve
+    rejectReady = reject
+  })
+  // Consumers that never await `ready` shouldn't see unhandled rejections
+  ready.catch(() => {})
+
+  let resolveFontsReady!: () => void
+  const fontsReady = new Promise<void>((resolve) => {
+    resolveFontsReady = resolve
+  })
+
+  // Components mounted into the content are rendered with the host component's app context
+  const appContext = getCurrentInstance()?.appContext
+  // Only server-side rendering provides an SSR context
+  const isServer = !!inject(ssrContextKey, null)
+  const serverHtml = computed(() =>
+    isServer && !toValue(src)
+      ? renderServerHtml(String(toValue(html) ?? ''), getMode(), {
+          sanitize: toValue(sanitize),
+          baseUrl: toValue(baseUrl),
+          rewriteUrl,
+          shadowRootInit,
+          nonce,
+        })
+      : undefined,
+  )
 
   /**
-   * Clear all rendered content from the host element or shadow root.
-   *
-   * This function adapts its behavior based on the rendering mode:
-   * - Shadow mode: Clears shadow root content
-   * - Direct mode: Clears target element content
+   * Resolve the rendering mode, falling back to the deprecated `isShadow` flag.
    */
-  function clear(): void {
-    if (isShadow && shadowRoot.value) {
-      clearShadowRoot(shadowRoot.value)
-    } else {
-      const target = getTargetEl()
-      if (target) {
-        clearElement(target)
-      }
-    }
+  function getMode(): RenderMode {
+    return toValue(mode) ?? (toValue(isShadow) ? RenderMode.Shadow : RenderMode.Direct)
   }
 
   /**
-   * Render HTML content based on the selected mode.
-   *
-   * This is the main rendering orchestrator that delegates to the appropriate
-   * renderer based on the isShadow flag.
+   * The current values of the options the renderer reads on every render.
    */
-  async function render(): Promise<void> {
-    if (isShadow) {
-      // Shadow DOM mode: Render with style isolation
-      if (!shadowRoot.value) {
-        console.error('Shadow root not available for rendering')
-        return
-      }
-      renderIntoShadowRoot(shadowRoot.value, html)
-    } else {
-      // Direct mode: Render with script execution
-      const target = getTargetEl()
-      if (!target) {
-        console.error('Target element not available for rendering')
-        return
-      }
-      await renderDirectly(target, html)
+  function getRenderOptions(): IHtmlRendererCoreOptions {
+    return {
+      html: toValue(html),
+      src: toValue(src),
+      baseUrl: toValue(baseUrl),
+      rewriteUrl,
+      mode: getMode(),
+      iframe: toValue(iframe),
+      adoptStyleSheets: toValue(adoptStyleSheets),
+      hostStyleSheets: toValue(hostStyleSheets),
+      slotNames: toValue(slotNames),
+      updateStrategy: toValue(updateStrategy),
+      sanitize: toValue(sanitize),
+      scriptPolicy: toValue(scriptPolicy),
+      scriptLoading: toValue(scriptLoading),
+      executeScripts: toValue(executeScripts),
+      sandboxScripts: toValue(sandboxScripts),
+      trackSideEffects: toValue(trackSideEffects),
+      nonce,
+      trustedTypes,
     }
   }
 
   /**
    * Lifecycle: Mount
    *
-   * Sets up the rendering environment and performs initial render.
-   *
-   * Shadow Mode:
-   * - Attaches shadow root in open mode
-   * - Renders HTML into shadow root
-   *
-   * Direct Mode:
-   * - Checks if mounted inside a Custom Element
-   * - Creates external container if needed (for Custom Element scenarios)
-   * - Renders HTML directly
+   * Creates the renderer for the host element and performs the initial render
+   * (or hydrates server-rendered output of the same content).
    */
   onMounted(() => {
-    if (!hostRef.value) return
-
-    if (isShadow) {
-      // Shadow DOM mode: Attach shadow root
-      try {
-        shadowRoot.value = hostRef.value.attachShadow({ mode: 'open' })
-      } catch (e) {
-        console.error('Failed to attach shadow root:', e)
-        return
-      }
-    } else {
-      // Direct mode: Check if we're inside a Custom Element and need external container
-      try {
-        const root = hostRef.value.getRootNode?.()
-        if (root && (root as any).host && typeof (root as any).host === 'object') {
-          // Likely a ShadowRoot - render outside into light DOM
-          const shadowRootNode = root as ShadowRoot
-          const ceHost = shadowRootNode.host as HTMLElement
-          const parent = ceHost.parentNode as (Node & ParentNode) | null
-          if (parent && typeof (parent as any).insertBefore === 'function') {
-            const external = document.createElement('div')
-            external.setAttribute('data-html-render-target', '')
-            // Insert right after the custom element host for visual adjacency
-            parent.insertBefore(external, ceHost.nextSibling)
-            targetRef.value = external
-            // Mark for cleanup on unmount
-            ;(targetRef.value as any).__external_owner = true
-          }
-        }
-      } catch {
-        // Fallback silently to internal host
-      }
-    }
+    const host = hostRef.value
+    if (!host) return
+
+    renderer = createHtmlRenderer(host, {
+      ...hooks,
+      ...getRenderOptions(),
+      shadowRootInit,
+      fonts,
+      hoistAtRules,
+      theme: toValue(theme),
+      parts: toValue(parts),
+      mountContent: (root) => {
+        const componentMap = toValue(components)
+        return componentMap ? mountComponents(root, componentMap, appContext) : undefined
+      },
+      onStatusChange: (next) => {
+        status.value = next
+        shadowRoot.value = renderer?.shadowRoot
+      },
+      onSlotTargetsChange: (targets) => {
+        slotTargets.value = targets
+      },
+      onLoadStateChange: (nextLoading, nextError) => {
+        loading.value = nextLoading
+        error.value = nextError
+      },
+    })
+    renderer.ready.then(resolveReady, rejectReady)
+    void renderer.fontsReady.then(resolveFontsReady)
 
-    // Perform initial render
-    void render()
+    // Perform initial render; failures are reported through `status` and `ready`
+    renderer.render().catch(() => {})
   })
 
   /**
-   * Lifecycle: Before Unmount
-   *
-   * Cleans up rendered content before the component unmounts.
+   * Re-render whenever the HTML, `src`, `baseUrl` or the mode (including `isShadow`) changes.
    *
-   * Shadow Mode:
-   * - Clears shadow root content
+   * Changes arriving before mount are ignored; the initial render picks up
+   * the latest values.
+   */
+  watch([() => toValue(html), () => toValue(src), () => toValue(baseUrl), getMode], () => {
+    // Failures are reported through `status`
+    renderer?.update(getRenderOptions()).catch(() => {})
+  })
+
+  /**
+   * Keep the host's custom properties in sync with `theme`, without re-rendering.
+   */
+  watch(
+    () => toValue(theme),
+    (variables) => void renderer?.update({ theme: variables }),
+    { deep: true },
+  )
+
+  /**
+   * Reassign `part` attributes when the part map changes.
+   */
+  watch(
+    () => toValue(parts),
+    (partMap) => void renderer?.update({ parts: partMap }),
+    { deep: true },
+  )
+
+  /**
+   * Lifecycle: Before Unmount
    *
-   * Direct Mode:
-   * - Clears target element content
-   * - Removes external container if one was created
+   * Removes the rendered content, injected @font-face rules and the external
+   * container (if one was created), and aborts a pending `src` request.
    */
   onBeforeUnmount(() => {
-    // Clear content safely
-    try {
-      clear()
-    } catch (e) {
-      if (typeof console !== 'undefined' && typeof console.debug === 'function') {
-        console.debug('useHtmlRenderer: clear() failed during unmount', e)
-      }
-    }
-
-    // If an external container was created by this instance, remove it from the DOM
-    if (!isShadow) {
-      const external = targetRef.value as any
-      if (external && external.__external_owner) {
-        if (external.parentNode) {
-          external.parentNode.removeChild(external)
-        }
-        targetRef.value = undefined as any
-      }
-    }
+    renderer?.destroy()
+    renderer = undefined
   })
 
-  // Return appropriate interface based on mode
-  if (isShadow) {
-    return { hostRef, clear, shadowRoot }
-  } else {
-    return { hostRef, clear }
+  /**
+   * Function to clear all rendered content from the host element.
+   */
+  function clear(): void {
+    renderer?.clear()
+  }
+
+  /**
+   * Send a message to the content of the current iframe-mode render.
+   * Messages are delivered to `htmlRendererBridge.on(type, handler)` inside the iframe.
+   */
+  function postMessage<T = unknown>(type: string, payload?: T): void {
+    renderer?.postMessage(type, payload)
+  }
+
+  return {
+    hostRef,
+    clear,
+    shadowRoot,
+    ready,
+    status,
+    loading,
+    error,
+    fontsReady,
+    postMessage,
+    slotTargets,
+    serverHtml,
   }
 }
@@ -0,0 +1,81 @@
+/**
+ * VueHTMLRenderer Library - Framework-Agnostic Entry Point
+ *
+ * The renderer without the Vue component and composable, for plain web pages and
+ * other frameworks. Nothing in this entry imports Vue.
+ *
+ * @example
+ * ```typescript
+ * import { createHtmlRenderer, RenderMode } from 'vue-html-renderer/core';
+ *
+ * const renderer = createHtmlRenderer(element, { html, mode: RenderMode.Shadow });
+ * await renderer.render();
+ * ```
+ *
+ * @module VueHTMLRenderer/core
+ */
+
+// ============================================================================
+// RENDERER EXPORTS
+// ============================================================================
+
+/**
+ * Create a renderer for a host element (render, update, clear, destroy).
+ */
+export { createHtmlRenderer } from './renderers/htmlRenderer'
+
+/**
+ * Render the host's content for server-side rendering; the first `render()` on the
+ * client hydrates it.
+ */
+export { renderServerHtml } from './renderers/serverRenderer'
+
+/**
+ * Rendering modes for the `mode` option.
+ */
+export { RenderMode } from './extras/types'
+
+/**
+ * Error reported for content the page's Content Security Policy blocked.
+ */
+export { ContentSecurityPolicyError } from './extras/contentSecurity'
+
+/**
+ * Error reported for external scripts that were refused or failed to load.
+ */
+export { ScriptLoadError } from './extras/scriptPolicy'
+
+// ============================================================================
+// TYPE EXPORTS
+// ============================================================================
+
+export type {
+  FontInjectionStrategy,
+  HoistableAtRule,
+  IAdoptedStyleSheetOptions,
+  IContentSecurityOptions,
+  IFontFaceExtractionOptions,
+  IHtmlRenderer,
+  IHtmlRendererCoreOptions,
+  IHtmlRendererHooks,
+  IIframeMessage,
+  IIframeOptions,
+  ISanitizeOptions,
+  IScriptLoadOptions,
+  IScriptMeta,
+  IScriptPolicy,
+  IServerRenderOptions,
+  IShadowRootInitOptions,
+  ITrustedHTML,
+  ITrustedTypePolicy,
+  IUrlRewriteContext,
+  IUrlRewriteOptions,
+  RenderStatus,
+  SanitizePreset,
+  ScriptBlockReason,
+  ScriptErrorReason,
+  ThemeParts,
+  ThemeVariables,
+  UpdateStrategy,
+  UrlKind,
+} from './extras/types'
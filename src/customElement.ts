@@ -0,0 +1,55 @@
+/**
+ * `<html-renderer>` Custom Element
+ *
+ * The renderer as a standards-based custom element, built with Vue's
+ * `defineCustomElement`, so pages without Vue can use it like any other element.
+ * Vue is still needed at runtime (as a peer dependency); see `vue-html-renderer/core`
+ * for a renderer without it.
+ *
+ * @example
+ * ```ts
+ * import { registerHtmlRenderer } from 'vue-html-renderer';
+ *
+ * registerHtmlRenderer();
+ * // <html-renderer mode="shadow" src="/fragments/coupon.html"></html-renderer>
+ * ```
+ *
+ * @module customElement
+ */
+
+import { defineCustomElement } from 'vue'
+import HtmlRendererElementComponent from './HtmlRendererElement.ce.vue'
+
+/**
+ * The custom element class. Register it with registerHtmlRenderer or
+ * `customElements.define` under a name of your choice.
+ */
+export const HtmlRendererElement = defineCustomElement(HtmlRendererElementComponent)
+
+/**
+ * Register the `<html-renderer>` custom element.
+ *
+ * Registering a name that is already defined does nothing, so the helper can be
+ * called from every module that uses the element. Elements of every registered name
+ * are instances of HtmlRendererElement.
+ *
+ * @param tagName - The element name (default: 'html-renderer')
+ * @returns The custom element class registered under the name
+ *
+ * @example
+ * ```ts
+ * registerHtmlRenderer();
+ * document.body.innerHTML = '<html-renderer html="<p>Hello</p>"></html-renderer>';
+ *
+ * // Under another name
+ * registerHtmlRenderer('acme-html');
+ * ```
+ */
+export function registerHtmlRenderer(tagName = 'html-renderer'): CustomElementConstructor {
+  const existing = customElements.get(tagName)
+  if (existing) return existing
+  // A class can only be defined once; a subclass per name allows several names
+  const element = class extends HtmlRendererElement {}
+  customElements.define(tagName, element)
+  return element
+}
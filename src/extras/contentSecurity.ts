@@ -0,0 +1,242 @@
+/**
+ * Content Security Policy Support for HTML Renderer Library
+ *
+ * Under a strict CSP, the elements the renderers create need the page's `nonce`, and
+ * with `require-trusted-types-for 'script'` every HTML and script sink (`innerHTML`,
+ * `DOMParser`, `srcdoc`, script text and `src`) only accepts Trusted Types values. The
+ * renderers use this module to pass their sinks through a Trusted Types policy and to
+ * turn the resulting CSP failures into descriptive errors.
+ *
+ * Key Features:
+ * - A named policy (created once, and listed in the `trusted-types` directive) or a
+ *   policy object of the app
+ * - The named policy passes HTML on as it is, unless the render sanitizes: then its
+ *   `createHTML` runs the sanitizer, so it never vouches for unsanitized content
+ * - `TrustedHTML` input is written to HTML sinks as it is, without a policy
+ * - ContentSecurityPolicyError names the blocked sink and the directive to check
+ *
+ * Without Trusted Types support in the browser, plain strings are used.
+ *
+ * @module contentSecurity
+ */
+
+import { sanitizeTree } from './sanitizer'
+import type {
+  IContentSecurityOptions,
+  IDirectRenderOptions,
+  ISanitizeOptions,
+  ITrustedHTML,
+  ITrustedTypePolicy,
+  SanitizePreset,
+} from './types'
+
+/**
+ * Error for content the page's Content Security Policy blocked.
+ *
+ * @example
+ * ```ts
+ * renderer.ready.catch((error) => {
+ *   if (error instanceof ContentSecurityPolicyError) {
+ *     console.warn(`Allowed by CSP? Check ${error.directive}`);
+ *   }
+ * });
+ * ```
+ */
+export class ContentSecurityPolicyError extends Error {
+  /**
+   * The CSP directive that blocked the content, e.g. `require-trusted-types-for`
+   */
+  readonly directive: string
+
+  /**
+   * The error the browser threw, if any
+   */
+  readonly cause?: unknown
+
+  constructor(message: string, directive: string, options?: { cause?: unknown }) {
+    super(message)
+    this.name = 'ContentSecurityPolicyError'
+    this.directive = directive
+    this.cause = options?.cause
+  }
+}
+
+/**
+ * Policies created by name. A name can only be used for one policy per page.
+ */
+const policies = new Map<string, ITrustedTypePolicy>()
+
+/**
+ * Resolve the `trustedTypes` option to a policy.
+ *
+ * @param option - A policy name or policy object
+ * @returns The policy; undefined without the option or Trusted Types support
+ * @throws ContentSecurityPolicyError if the `trusted-types` directive doesn't allow the name
+ *
+ * @example
+ * ```ts
+ * const policy = getTrustedTypesPolicy('vue-html-renderer');
+ * template.innerHTML = policy ? policy.createHTML(html) : html;
+ * ```
+ */
+export function getTrustedTypesPolicy(
+  option: IContentSecurityOptions['trustedTypes'],
+): ITrustedTypePolicy | undefined {
+  if (!option) return undefined
+  if (typeof option !== 'string') return option
+
+  const factory = (window as any).trustedTypes
+  if (!factory) return undefined
+
+  let policy = policies.get(option)
+  if (!policy) {
+    try {
+      // Scripts and URLs are trusted as given (see the scriptPolicy option); HTML is
+      // sanitized when the render asks for it (see toTrustedHTML)
+      policy = factory.createPolicy(option, {
+        createHTML: (input: string, sanitize?: SanitizePreset | ISanitizeOptions) =>
+          sanitize ? sanitizeHtml(input, sanitize, policy!) : input,
+        createScript: (input: string) => input,
+        createScriptURL: (input: string) => input,
+      }) as ITrustedTypePolicy
+    } catch (e) {
+      throw new ContentSecurityPolicyError(
+        `contentSecurity: the Trusted Types policy "${option}" could not be created; ` +
+          'allow it in the trusted-types directive',
+        'trusted-types',
+        { cause: e },
+      )
+    }
+    policies.set(option, policy)
+  }
+  return policy
+}
+
+/**
+ * Sanitize HTML inside the named policy. It is parsed through the policy itself (which
+ * passes it on as it is), as a document if it has document structure and as a
+ * fragment otherwise, so the result keeps the shape of the input.
+ */
+function sanitizeHtml(
+  input: string,
+  sanitize: SanitizePreset | ISanitizeOptions,
+  policy: ITrustedTypePolicy,
+): string {
+  const trusted = policy.createHTML!(input) as string
+  if (/<(html|head|body)[\s>]/i.test(input)) {
+    const doc = new DOMParser().parseFromString(trusted, 'text/html')
+    sanitizeTree(doc, sanitize)
+    return doc.documentElement.outerHTML
+  }
+  const template = document.createElement('template')
+  template.innerHTML = trusted
+  sanitizeTree(template.content, sanitize)
+  return template.innerHTML
+}
+
+/**
+ * Prepare HTML for an HTML sink. `TrustedHTML` values are passed on as they are.
+ *
+ * With a named policy, HTML passes through unchanged unless `sanitize` is set, in
+ * which case the policy sanitizes it before vouching for it. A policy object is
+ * called with the HTML alone; it is the app's job to sanitize there.
+ *
+ * @param html - The HTML
+ * @param options - The `trustedTypes` option, and the `sanitize` option of the render
+ * @returns The value to assign, typed as a string for the DOM typings
+ */
+export function toTrustedHTML(
+  html: string | ITrustedHTML,
+  options: IContentSecurityOptions & Pick<IDirectRenderOptions, 'sanitize'>,
+): string {
+  if (typeof html !== 'string') return html as string
+  const policy = getTrustedTypesPolicy(options.trustedTypes)
+  if (!policy?.createHTML) return html
+  if (typeof options.trustedTypes === 'string' && options.sanitize) {
+    const createHTML = policy.createHTML as (input: string, sanitize: unknown) => unknown
+    return createHTML.call(policy, html, options.sanitize) as string
+  }
+  return policy.createHTML(html) as string
+}
+
+/**
+ * Prepare code for a script's text.
+ *
+ * @param code - The script's code
+ * @param options - The `trustedTypes` option
+ * @returns The value to assign, typed as a string for the DOM typings
+ */
+export function toTrustedScript(code: string, options: IContentSecurityOptions): string {
+  return (getTrustedTypesPolicy(options.trustedTypes)?.createScript?.(code) ?? code) as string
+}
+
+/**
+ * Prepare a URL for a script's `src`.
+ *
+ * @param url - The script URL
+ * @param options - The `trustedTypes` option
+ * @returns The value to assign, typed as a string for the DOM typings
+ */
+export function toTrustedScriptURL(url: string, options: IContentSecurityOptions): string {
+  return (getTrustedTypesPolicy(options.trustedTypes)?.createScriptURL?.(url) ?? url) as string
+}
+
+/**
+ * Write to a sink, turning a Trusted Types rejection into a ContentSecurityPolicyError.
+ *
+ * @param sink - Name of the sink for the error message, e.g. `template.innerHTML`
+ * @param assign - Performs the assignment
+ * @returns The result of `assign`
+ * @throws ContentSecurityPolicyError if Trusted Types rejected the value
+ *
+ * @example
+ * ```ts
+ * writeSink('template.innerHTML', () => {
+ *   template.innerHTML = toTrustedHTML(html, options);
+ * });
+ * ```
+ */
+export function writeSink<T>(sink: string, assign: () => T): T {
+  try {
+    return assign()
+  } catch (e) {
+    if (e instanceof TypeError && /Trusted(HTML|Script|ScriptURL)/.test(e.message)) {
+      throw new ContentSecurityPolicyError(
+        `contentSecurity: Trusted Types blocked ${sink}; set the trustedTypes option to a ` +
+          'policy name allowed by the trusted-types directive, or pass TrustedHTML',
+        'require-trusted-types-for',
+        { cause: e },
+      )
+    }
+    throw e
+  }
+}
+
+/**
+ * Set the `nonce` on the `<style>` elements of a parsed tree, so the page's CSP lets
+ * them apply once inserted.
+ *
+ * @param root - The parsed tree
+ * @param nonce - The page's nonce; nothing happens without one
+ */
+export function applyStyleNonce(root: ParentNode, nonce: string | undefined): void {
+  if (!nonce) return
+  root.querySelectorAll('style').forEach((style) => style.setAttribute('nonce', nonce))
+}
+
+/**
+ * Describe a CSP violation of a rendered element.
+ *
+ * @param event - The `securitypolicyviolation` event
+ * @returns The error to report
+ */
+export function createViolationError(
+  event: SecurityPolicyViolationEvent,
+): ContentSecurityPolicyError {
+  const blocked = event.blockedURI || 'inline content'
+  return new ContentSecurityPolicyError(
+    `contentSecurity: ${blocked} was blocked by the ${event.effectiveDirective} directive; ` +
+      'set the nonce option to the nonce of the page',
+    event.effectiveDirective,
+  )
+}
@@ -0,0 +1,189 @@
+/**
+ * CSS Tokenizer for HTML Renderer Library
+ *
+ * A small, framework-agnostic CSS tokenizer. It doesn't implement the full CSS
+ * Syntax spec; it only distinguishes what matters for finding rule boundaries, so
+ * braces and semicolons inside comments, strings and `url()` are never mistaken
+ * for structure.
+ *
+ * Token types:
+ * - `at-keyword`: `@font-face`, `@media`, ... (value without the `@`)
+ * - `string`: Quoted strings, including the quotes
+ * - `url`: Unquoted `url(...)` functions
+ * - `comment`: `/* ... *\/` comments
+ * - `{`, `}`, `;`: Block and statement delimiters
+ * - `whitespace`: Runs of whitespace
+ * - `other`: Everything else (identifiers, numbers, punctuation)
+ *
+ * @module cssTokenizer
+ */
+
+import type { ICssAtRule, ICssToken } from './types'
+
+const WHITESPACE = /\s/
+const IDENT_CHAR = /[\w-]/
+
+/**
+ * Split a stylesheet into tokens.
+ *
+ * Unterminated comments, strings and `url()` run to the end of the input,
+ * matching how browsers recover from them.
+ *
+ * @param css - The stylesheet source
+ * @returns The tokens in source order; their `start`/`end` offsets cover the input
+ *
+ * @example
+ * ```ts
+ * tokenizeCss('a{content:"}"}').map((t) => t.type);
+ * // ['other', '{', 'other', 'string', '}']
+ * ```
+ */
+export function tokenizeCss(css: string): ICssToken[] {
+  const tokens: ICssToken[] = []
+  let pos = 0
+
+  const push = (type: ICssToken['type'], start: number, end: number, value?: string) => {
+    tokens.push({ type, value: value ?? css.slice(start, end), start, end })
+  }
+
+  while (pos < css.length) {
+    const start = pos
+    const ch = css[pos]!
+
+    if (ch === '/' && css[pos + 1] === '*') {
+      const close = css.indexOf('*/', pos + 2)
+      pos = close === -1 ? css.length : close + 2
+      push('comment', start, pos)
+    } else if (ch === '"' || ch === "'") {
+      pos++
+      while (pos < css.length && css[pos] !== ch && css[pos] !== '\n') {
+        // Skip escaped characters, including escaped quotes
+        pos += css[pos] === '\\' ? 2 : 1
+      }
+      pos = Math.min(pos + 1, css.length)
+      push('string', start, pos)
+    } else if (ch === '{' || ch === '}' || ch === ';') {
+      pos++
+      push(ch, start, pos)
+    } else if (WHITESPACE.test(ch)) {
+      while (pos < css.length && WHITESPACE.test(css[pos]!)) pos++
+      push('whitespace', start, pos)
+    } else if (ch === '@' && IDENT_CHAR.test(css[pos + 1] ?? '')) {
+      pos++
+      while (pos < css.length && IDENT_CHAR.test(css[pos]!)) pos++
+      push('at-keyword', start, pos, css.slice(start + 1, pos))
+    } else if (/^url\(\s*[^\s'")]/i.test(css.slice(pos, pos + 6))) {
+      // Unquoted url(): may contain braces and semicolons (e.g. data URLs)
+      const close = css.indexOf(')', pos)
+      pos = close === -1 ? css.length : close + 1
+      push('url', start, pos)
+    } else {
+      pos++
+      if (ch === '\\') pos++
+      // Group plain characters so identifiers and values stay in one token
+      while (
+        pos < css.length &&
+        !/[\s/"'{};@\\]/.test(css[pos]!) &&
+        !/^url\(/i.test(css.slice(pos, pos + 4))
+      ) {
+        pos++
+      }
+      push('other', start, Math.min(pos, css.length))
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Find the block at-rules with the given names in a stylesheet.
+ *
+ * Rules are found at any nesting level (e.g. inside `@media`), but never inside
+ * another matched rule. Statement at-rules ending in `;` are ignored.
+ *
+ * @param css - The stylesheet source
+ * @param names - At-rule names without `@` (case-insensitive), e.g. `['font-face']`
+ * @returns The matched rules in source order
+ *
+ * @example
+ * ```ts
+ * extractAtRules(css, ['font-face', 'property']);
+ * // [{ name: 'font-face', text: '@font-face { ... }' }, ...]
+ * ```
+ */
+export function extractAtRules(css: string, names: readonly string[]): ICssAtRule[] {
+  const wanted = new Set(names.map((name) => name.toLowerCase()))
+  const tokens = tokenizeCss(css)
+  const rules: ICssAtRule[] = []
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!
+    if (token.type !== 'at-keyword' || !wanted.has(token.value.toLowerCase())) continue
+
+    // Find the prelude's end: a block or a statement terminator
+    let j = i + 1
+    while (j < tokens.length && tokens[j]!.type !== '{' && tokens[j]!.type !== ';') j++
+    if (tokens[j]?.type !== '{') {
+      i = j
+      continue
+    }
+
+    let depth = 0
+    for (; j < tokens.length; j++) {
+      if (tokens[j]!.type === '{') depth++
+      if (tokens[j]!.type === '}' && --depth === 0) break
+    }
+    // Unterminated blocks are dropped rather than hoisted half-way
+    if (j >= tokens.length) break
+
+    rules.push({
+      name: token.value.toLowerCase(),
+      text: css.slice(token.start, tokens[j]!.end).trim(),
+    })
+    i = j
+  }
+
+  return rules
+}
+
+/**
+ * Parse the declarations of a rule's top-level block.
+ *
+ * @param rule - A rule such as `@font-face { font-family: X; src: url(x.woff2) }`
+ * @returns Property names (lowercased) mapped to their values
+ *
+ * @example
+ * ```ts
+ * parseDeclarations('@font-face { font-family: "A"; font-weight: 700 }').get('font-weight'); // '700'
+ * ```
+ */
+export function parseDeclarations(rule: string): Map<string, string> {
+  const declarations = new Map<string, string>()
+  let depth = 0
+  let current = ''
+
+  const flush = () => {
+    const colon = current.indexOf(':')
+    if (colon > 0) {
+      declarations.set(
+        current.slice(0, colon).trim().toLowerCase(),
+        current.slice(colon + 1).trim(),
+      )
+    }
+    current = ''
+  }
+
+  for (const token of tokenizeCss(rule)) {
+    if (token.type === '{') {
+      depth++
+    } else if (token.type === '}') {
+      depth--
+      if (depth === 0) flush()
+    } else if (depth === 1) {
+      if (token.type === ';') flush()
+      else if (token.type !== 'comment') current += token.value
+    }
+  }
+
+  return declarations
+}
@@ -0,0 +1,204 @@
+/**
+ * DOM Morphing Utilities for HTML Renderer Library
+ *
+ * This module contains a small, framework-agnostic DOM morphing algorithm used by
+ * the `morph` update strategy. Instead of clearing a container and inserting freshly
+ * parsed content, the existing tree is patched in place so that untouched nodes keep
+ * their runtime state (focus, scroll position, form values, running CSS animations).
+ *
+ * Matching rules:
+ * - Elements with an `id` or `data-key` attribute are matched by that key
+ * - Other nodes are matched by position when they have the same node type and name
+ * - `<script>` elements are only reused when their `src`, `type` and code are identical,
+ *   so changed scripts are replaced (and re-executed by the direct renderer)
+ * - The children of slot regions (marked with `__html_renderer_slot`) are left alone
+ *
+ * @module morph
+ */
+
+/**
+ * Get the key used to match an element across renders.
+ *
+ * @param node - The node to inspect
+ * @returns The `id` or `data-key` value, or null for unkeyed nodes
+ */
+function getNodeKey(node: Node): string | null {
+  if (node.nodeType !== Node.ELEMENT_NODE) return null
+  const el = node as Element
+  return el.getAttribute('data-key') || el.id || null
+}
+
+/**
+ * Build a comparable signature for a script element.
+ *
+ * Recreated scripts carry normalized attributes, so only the parts that affect
+ * what gets executed are compared. Scripts whose code was wrapped by a renderer
+ * keep their original code in `__html_renderer_code`, scripts whose `src` was
+ * rewritten their original source in `__html_renderer_src`.
+ *
+ * @param script - The script element
+ * @returns A string identifying the script's source, type and code
+ */
+function getScriptSignature(script: Element): string {
+  const src = ((script as any).__html_renderer_src ?? script.getAttribute('src') ?? '').trim()
+  const type = (script.getAttribute('type') || '').trim().toLowerCase()
+  const code = (script as any).__html_renderer_code ?? script.textContent ?? ''
+  return `${type}|${src}|${src ? '' : code}`
+}
+
+/**
+ * Check whether an existing node can be morphed into a new one.
+ *
+ * @param from - The existing node in the live tree
+ * @param to - The newly parsed node
+ * @returns True if `from` can be patched to look like `to`
+ */
+function isSameKind(from: Node, to: Node): boolean {
+  if (from.nodeType !== to.nodeType || from.nodeName !== to.nodeName) return false
+  if (from.nodeName === 'SCRIPT') {
+    return getScriptSignature(from as Element) === getScriptSignature(to as Element)
+  }
+  return true
+}
+
+/**
+ * Copy the attributes of `to` onto `from`, removing attributes `to` doesn't have.
+ *
+ * Only attributes are touched; live properties such as an input's current value
+ * are left alone so user input survives updates.
+ *
+ * @param from - The element being patched
+ * @param to - The element providing the new attributes
+ */
+function syncAttributes(from: Element, to: Element): void {
+  for (const attr of Array.from(from.attributes)) {
+    if (!to.hasAttribute(attr.name)) {
+      from.removeAttribute(attr.name)
+    }
+  }
+  for (const attr of Array.from(to.attributes)) {
+    if (from.getAttribute(attr.name) !== attr.value) {
+      from.setAttribute(attr.name, attr.value)
+    }
+  }
+}
+
+/**
+ * Patch a single node so it matches the new node.
+ *
+ * @param from - The existing node in the live tree
+ * @param to - The newly parsed node of the same kind
+ */
+export function morphNode(from: Node, to: Node): void {
+  if (from.nodeType !== Node.ELEMENT_NODE) {
+    // Text, comment and other character data nodes
+    if (from.nodeValue !== to.nodeValue) {
+      from.nodeValue = to.nodeValue
+    }
+    return
+  }
+
+  const fromEl = from as Element
+  const toEl = to as Element
+  syncAttributes(fromEl, toEl)
+
+  // Identical scripts are kept as-is so they don't run again
+  if (fromEl.nodeName === 'SCRIPT') return
+
+  // Slot regions hold content teleported in by the component; it isn't part of the HTML
+  if ((fromEl as any).__html_renderer_slot) return
+
+  if (fromEl instanceof HTMLTemplateElement && toEl instanceof HTMLTemplateElement) {
+    fromEl.content.replaceChildren(...Array.from(toEl.content.childNodes))
+    return
+  }
+
+  morphChildren(fromEl, toEl)
+}
+
+/**
+ * Morph the children of `fromParent` so they match the children of `toParent`.
+ *
+ * Nodes of `toParent` that have no counterpart are moved into `fromParent`, so
+ * `toParent` should be a throwaway container (e.g. a freshly parsed fragment).
+ *
+ * @param fromParent - The live container to patch
+ * @param toParent - The container holding the newly parsed content
+ *
+ * @example
+ * ```ts
+ * const temp = document.createElement('div');
+ * temp.innerHTML = nextHtml;
+ * morphChildren(container, temp);
+ * ```
+ */
+export function morphChildren(fromParent: Node & ParentNode, toParent: Node & ParentNode): void {
+  const toChildren = Array.from(toParent.childNodes)
+
+  // Index keyed nodes of the live tree so they can be matched regardless of position
+  const keyed = new Map<string, ChildNode>()
+  for (const child of Array.from(fromParent.childNodes)) {
+    const key = getNodeKey(child)
+    if (key && !keyed.has(key)) keyed.set(key, child)
+  }
+  const wantedKeys = new Set(toChildren.map(getNodeKey).filter((key) => key !== null))
+
+  // A live node can be matched by position if it isn't reserved for a keyed match
+  const isFree = (node: ChildNode): boolean => {
+    const key = getNodeKey(node)
+    return !key || !wantedKeys.has(key)
+  }
+
+  let cursor: ChildNode | null = fromParent.firstChild
+
+  toChildren.forEach((toChild, index) => {
+    const key = getNodeKey(toChild)
+    let match: ChildNode | null = null
+
+    if (key) {
+      const candidate = keyed.get(key)
+      if (candidate && isSameKind(candidate, toChild)) {
+        match = candidate
+        keyed.delete(key)
+      }
+    } else if (cursor) {
+      // Look ahead for a compatible node; skipped nodes are treated as removed unless
+      // they would match the next new node (which indicates an insertion instead)
+      const nextToChild = toChildren[index + 1]
+      const skipped: ChildNode[] = []
+      let probe: ChildNode | null = cursor
+      while (probe && !(isFree(probe) && isSameKind(probe, toChild))) {
+        skipped.push(probe)
+        probe = probe.nextSibling
+      }
+      const skippedStillUseful =
+        !!nextToChild && skipped.some((node) => isFree(node) && isSameKind(node, nextToChild))
+      if (probe && !skippedStillUseful) {
+        for (const node of skipped) {
+          if (isFree(node)) node.remove()
+        }
+        // Reserved keyed nodes that were skipped stay in place for their own match
+        match = probe
+        cursor = skipped.find((node) => node.parentNode === fromParent) ?? probe
+      }
+    }
+
+    if (match) {
+      if (match === cursor) {
+        cursor = cursor.nextSibling
+      } else {
+        fromParent.insertBefore(match, cursor)
+      }
+      morphNode(match, toChild)
+    } else {
+      fromParent.insertBefore(toChild, cursor)
+    }
+  })
+
+  // Anything left after the cursor has no counterpart in the new content
+  while (cursor) {
+    const next: ChildNode | null = cursor.nextSibling
+    cursor.remove()
+    cursor = next
+  }
+}
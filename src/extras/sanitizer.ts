@@ -0,0 +1,335 @@
+/**
+ * HTML Sanitizer for HTML Renderer Library
+ *
+ * This module contains a framework-agnostic, allow-list based sanitizer that runs
+ * over an already parsed (inert) DOM tree before it is inserted into the page.
+ *
+ * What it does:
+ * - Removes elements whose tag is not allowed (dangerous ones together with their content)
+ * - Removes attributes that are not allowed for the element
+ * - Strips inline event handlers (`on*` attributes)
+ * - Strips URLs whose scheme is not allowed (e.g. `javascript:`)
+ * - Runs an optional custom hook for every surviving element
+ *
+ * Named presets:
+ * - `strict`: Basic text formatting, lists, tables, links and images
+ * - `email`: Everything in `strict` plus `<style>`, inline styles and legacy
+ *   presentational markup commonly found in HTML emails; not `<link>`, since linked
+ *   stylesheets could be loaded (and track opens) from anywhere
+ * - `trusted`: No allow-lists; only the custom hook is applied
+ *
+ * @module sanitizer
+ */
+
+import type { ISanitizeOptions, SanitizePreset } from './types'
+
+/**
+ * Fully resolved sanitizer policy (preset merged with overrides).
+ */
+interface IResolvedSanitizePolicy {
+  allowedTags: Set<string> | '*'
+  allowedAttributes: Record<string, string[]> | '*'
+  allowedSchemes: Set<string> | '*'
+  allowEventHandlers: boolean
+  hook?: ISanitizeOptions['hook']
+}
+
+/**
+ * Structural tags that are always kept so full documents keep their shape.
+ */
+const STRUCTURAL_TAGS = ['html', 'head', 'body']
+
+/**
+ * Tags removed together with their content when not allowed.
+ * Unwrapping them would expose code or markup as text.
+ */
+const DROP_CONTENT_TAGS = new Set([
+  'script',
+  'style',
+  'template',
+  'iframe',
+  'frame',
+  'frameset',
+  'object',
+  'embed',
+  'applet',
+  'noscript',
+  'noembed',
+  'noframes',
+  'textarea',
+  'select',
+  'title',
+  'svg',
+  'math',
+])
+
+/**
+ * Attributes whose value is a URL (or a list of URLs for srcset).
+ */
+const URL_ATTRIBUTES = new Set([
+  'href',
+  'src',
+  'action',
+  'formaction',
+  'poster',
+  'cite',
+  'background',
+  'longdesc',
+  'data',
+  'xlink:href',
+  'srcset',
+])
+
+const STRICT_TAGS = [
+  'a',
+  'abbr',
+  'article',
+  'aside',
+  'b',
+  'blockquote',
+  'br',
+  'caption',
+  'code',
+  'dd',
+  'del',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'i',
+  'img',
+  'ins',
+  'li',
+  'main',
+  'mark',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  's',
+  'section',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+]
+
+const STRICT_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class', 'id', 'title', 'lang', 'dir', 'role', 'aria-*', 'data-*'],
+  a: ['href', 'target', 'rel'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+}
+
+/**
+ * Named sanitizer presets.
+ */
+const PRESETS: Record<SanitizePreset, Required<Omit<ISanitizeOptions, 'preset' | 'hook'>>> = {
+  strict: {
+    allowedTags: STRICT_TAGS,
+    allowedAttributes: STRICT_ATTRIBUTES,
+    allowedSchemes: ['http', 'https', 'mailto'],
+    allowEventHandlers: false,
+  },
+  email: {
+    allowedTags: [...STRICT_TAGS, 'center', 'col', 'colgroup', 'font', 'meta', 'style', 'title'],
+    allowedAttributes: {
+      ...STRICT_ATTRIBUTES,
+      '*': [...(STRICT_ATTRIBUTES['*'] ?? []), 'style', 'align', 'valign', 'bgcolor', 'width'],
+      table: ['border', 'cellpadding', 'cellspacing', 'height', 'background'],
+      td: ['colspan', 'rowspan', 'height', 'background', 'nowrap'],
+      th: ['colspan', 'rowspan', 'scope', 'height', 'background', 'nowrap'],
+      img: ['src', 'alt', 'width', 'height', 'border'],
+      font: ['face', 'color', 'size'],
+      col: ['span'],
+      colgroup: ['span'],
+      meta: ['charset', 'name', 'content'],
+      style: ['type', 'media'],
+    },
+    allowedSchemes: ['http', 'https', 'mailto', 'tel', 'cid'],
+    allowEventHandlers: false,
+  },
+  trusted: {
+    allowedTags: '*',
+    allowedAttributes: '*',
+    allowedSchemes: '*',
+    allowEventHandlers: true,
+  },
+}
+
+/**
+ * Merge a preset name or options object into a resolved policy.
+ *
+ * Options without a `preset` extend the `strict` preset; any allow-list given
+ * in the options replaces the preset's list.
+ *
+ * @param options - Preset name or sanitizer options
+ * @returns The resolved policy
+ */
+function resolvePolicy(options: SanitizePreset | ISanitizeOptions): IResolvedSanitizePolicy {
+  const opts: ISanitizeOptions = typeof options === 'string' ? { preset: options } : options
+  const preset = PRESETS[opts.preset ?? 'strict']
+
+  const tags = opts.allowedTags ?? preset.allowedTags
+  const schemes = opts.allowedSchemes ?? preset.allowedSchemes
+
+  return {
+    allowedTags:
+      tags === '*' ? '*' : new Set([...tags.map((t) => t.toLowerCase()), ...STRUCTURAL_TAGS]),
+    allowedAttributes: opts.allowedAttributes ?? preset.allowedAttributes,
+    allowedSchemes: schemes === '*' ? '*' : new Set(schemes.map((s) => s.toLowerCase())),
+    allowEventHandlers: opts.allowEventHandlers ?? preset.allowEventHandlers,
+    hook: opts.hook,
+  }
+}
+
+/**
+ * Check an attribute name against a list that may contain `prefix-*` wildcards.
+ */
+function matchesAttributeList(name: string, list: string[] | undefined): boolean {
+  if (!list) return false
+  return list.some((entry) =>
+    entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : entry === name,
+  )
+}
+
+/**
+ * Check whether a URL value uses an allowed scheme. Relative URLs are always allowed.
+ */
+function isUrlAllowed(value: string, schemes: Set<string> | '*'): boolean {
+  if (schemes === '*') return true
+  // Browsers ignore whitespace and control characters inside the scheme
+  const compact = Array.from(value)
+    .filter((ch) => ch.charCodeAt(0) > 0x20 && ch.charCodeAt(0) !== 0x7f)
+    .join('')
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(compact)
+  return !match || schemes.has(match[1]!.toLowerCase())
+}
+
+/**
+ * Remove attributes that the policy doesn't allow.
+ */
+function sanitizeAttributes(el: Element, policy: IResolvedSanitizePolicy): void {
+  const tag = el.localName
+
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.name.toLowerCase()
+
+    if (name.startsWith('on')) {
+      if (!policy.allowEventHandlers) el.removeAttribute(attr.name)
+      continue
+    }
+
+    if (
+      policy.allowedAttributes !== '*' &&
+      !matchesAttributeList(name, policy.allowedAttributes['*']) &&
+      !matchesAttributeList(name, policy.allowedAttributes[tag])
+    ) {
+      el.removeAttribute(attr.name)
+      continue
+    }
+
+    if (URL_ATTRIBUTES.has(name)) {
+      const urls =
+        name === 'srcset'
+          ? attr.value.split(',').map((c) => c.trim().split(/\s+/)[0] ?? '')
+          : [attr.value]
+      if (!urls.every((url) => isUrlAllowed(url, policy.allowedSchemes))) {
+        el.removeAttribute(attr.name)
+      }
+      continue
+    }
+
+    if (
+      name === 'style' &&
+      policy.allowedSchemes !== '*' &&
+      /expression\s*\(|javascript\s*:/i.test(attr.value)
+    ) {
+      el.removeAttribute(attr.name)
+    }
+  }
+}
+
+/**
+ * Sanitize the children of a node in place.
+ */
+function sanitizeChildren(parent: ParentNode, policy: IResolvedSanitizePolicy): void {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType !== Node.ELEMENT_NODE) continue
+
+    const el = child as Element
+    const tag = el.localName
+
+    if (policy.allowedTags !== '*' && !policy.allowedTags.has(tag)) {
+      if (DROP_CONTENT_TAGS.has(tag)) {
+        el.remove()
+      } else {
+        // Keep the (sanitized) content of harmless unknown wrappers
+        sanitizeChildren(el, policy)
+        el.replaceWith(...Array.from(el.childNodes))
+      }
+      continue
+    }
+
+    sanitizeAttributes(el, policy)
+
+    if (policy.hook && policy.hook(el) === false) {
+      el.remove()
+      continue
+    }
+
+    if (el instanceof HTMLTemplateElement) {
+      sanitizeChildren(el.content, policy)
+    }
+    sanitizeChildren(el, policy)
+  }
+}
+
+/**
+ * Sanitize a parsed DOM tree in place.
+ *
+ * The tree must be inert (e.g. a DOMParser document or `<template>` content) so
+ * nothing in it runs before sanitization.
+ *
+ * @param root - The parsed document or fragment to sanitize
+ * @param options - Preset name or sanitizer options
+ *
+ * @example
+ * ```ts
+ * const doc = new DOMParser().parseFromString(html, 'text/html');
+ * sanitizeTree(doc, 'email');
+ *
+ * sanitizeTree(fragment, {
+ *   preset: 'strict',
+ *   allowedSchemes: ['https'],
+ *   hook: (el) => {
+ *     if (el.localName === 'a') el.setAttribute('rel', 'noopener');
+ *   },
+ * });
+ * ```
+ */
+export function sanitizeTree(root: ParentNode, options: SanitizePreset | ISanitizeOptions): void {
+  sanitizeChildren(root, resolvePolicy(options))
+}
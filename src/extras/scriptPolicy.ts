@@ -0,0 +1,249 @@
+/**
+ * Script Execution Policy for HTML Renderer Library
+ *
+ * This module decides whether an extracted `<script>` may be executed. It is
+ * framework-agnostic and used by the renderers right before a script is recreated.
+ *
+ * Checks, in order:
+ * 1. Inline scripts (`allowInline`)
+ * 2. Module scripts (`allowModules`)
+ * 3. External sources (`allowedSources`)
+ * 4. The host app's `beforeScriptExecute` callback, which may also rewrite the
+ *    script metadata; rewritten scripts are checked against 1-3 again
+ *
+ * Scripts that pass get their Subresource Integrity hash from the policy's `integrity`
+ * map (see applyScriptIntegrity); with the map, unlisted external scripts are refused.
+ *
+ * @module scriptPolicy
+ */
+
+import { normalizeAttr } from './utils'
+import type { IScriptMeta, IScriptPolicy, ScriptBlockReason, ScriptErrorReason } from './types'
+
+/**
+ * Error reported through `onScriptError` for an external script that was refused or
+ * failed to load.
+ *
+ * @example
+ * ```ts
+ * onScriptError: (meta, error) => {
+ *   if (error instanceof ScriptLoadError && error.reason === 'integrity') {
+ *     report(`Tampered script: ${error.src}`);
+ *   }
+ * }
+ * ```
+ */
+export class ScriptLoadError extends Error {
+  /**
+   * Why the script failed: `blocked`, `integrity`, `network` or `timeout`
+   */
+  readonly reason: ScriptErrorReason
+
+  /**
+   * The URL that failed as written in the content: the `src`, or the
+   * `data-fallback-src` once the script fell back to it
+   */
+  readonly src: string
+
+  /**
+   * The browser's error event, if any
+   */
+  readonly cause?: unknown
+
+  constructor(
+    message: string,
+    reason: ScriptErrorReason,
+    src: string,
+    options?: { cause?: unknown },
+  ) {
+    super(message)
+    this.name = 'ScriptLoadError'
+    this.reason = reason
+    this.src = src
+    this.cause = options?.cause
+  }
+}
+
+/**
+ * Convert a glob-like pattern (`*` matches anything) into a regular expression.
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`)
+}
+
+/**
+ * Check whether a script URL matches one allowed source pattern.
+ *
+ * Supported patterns:
+ * - `'self'`: Same origin as the current page
+ * - An origin (`https://cdn.example.com`): Any URL on that origin
+ * - A glob (`https://cdn.example.com/libs/*.js`): Matched against the full URL
+ * - A URL prefix (`https://cdn.example.com/libs/`)
+ * - A RegExp: Tested against the full URL
+ *
+ * @param url - The resolved script URL
+ * @param pattern - The allowed source pattern
+ * @returns True if the URL matches the pattern
+ */
+export function matchesScriptSource(url: URL, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(url.href)
+  }
+  if (pattern === "'self'" || pattern === 'self') {
+    return url.origin === window.location.origin
+  }
+  if (pattern.includes('*')) {
+    return globToRegExp(pattern).test(url.href)
+  }
+  try {
+    const parsed = new URL(pattern)
+    // A bare origin allows every path on it
+    if (parsed.origin === pattern.replace(/\/$/, '')) {
+      return url.origin === parsed.origin
+    }
+  } catch {
+    // Not an absolute URL; fall through to prefix matching
+  }
+  return url.href.startsWith(pattern)
+}
+
+/**
+ * Run the static (synchronous) checks of a policy.
+ *
+ * @param meta - Script metadata
+ * @param policy - The script policy
+ * @param baseUrl - URL the `src` resolves against (default: the page's base URL)
+ * @returns The reason the script is blocked, or null if it is allowed
+ */
+function checkStaticPolicy(
+  meta: IScriptMeta,
+  policy: IScriptPolicy,
+  baseUrl: string | undefined,
+): ScriptBlockReason | null {
+  const src = meta.hasSrc ? meta.attrs['src'] : undefined
+
+  if (!src && policy.allowInline === false) return 'inline'
+  if (meta.isModule && policy.allowModules === false) return 'module'
+
+  if (src && !isScriptSourceAllowed(src, policy, baseUrl)) return 'source'
+
+  return null
+}
+
+/**
+ * Check a script URL against the policy's allowed sources.
+ *
+ * @param src - The script URL as written in the content
+ * @param policy - The script policy; undefined allows every source
+ * @param baseUrl - URL the `src` resolves against (default: the page's base URL)
+ * @returns True if the policy has no `allowedSources` or the URL matches one of them
+ */
+function isScriptSourceAllowed(
+  src: string,
+  policy: IScriptPolicy | undefined,
+  baseUrl: string | undefined,
+): boolean {
+  if (!policy?.allowedSources) return true
+  let url: URL
+  try {
+    url = new URL(src.trim(), baseUrl ?? document.baseURI)
+  } catch {
+    return false
+  }
+  return policy.allowedSources.some((pattern) => matchesScriptSource(url, pattern))
+}
+
+/**
+ * Look up the integrity hash of an external script and set it, with `crossorigin`
+ * (required for SRI on cross-origin scripts), on the script's attributes.
+ *
+ * Does nothing for inline scripts or without an `integrity` map. A `crossorigin`
+ * value of the content is kept.
+ *
+ * @param meta - Script metadata (its `attrs` are updated)
+ * @param policy - The script policy
+ * @param baseUrl - URL the `src` resolves against (default: the page's base URL)
+ * @throws ScriptLoadError with reason `blocked` if the script isn't in the map
+ *
+ * @example
+ * ```ts
+ * applyScriptIntegrity(meta, {
+ *   integrity: { 'https://cdn.example.com/widget.js': 'sha384-...' },
+ * });
+ * meta.attrs.integrity; // 'sha384-...'
+ * ```
+ */
+export function applyScriptIntegrity(
+  meta: IScriptMeta,
+  policy: IScriptPolicy | undefined,
+  baseUrl?: string,
+): void {
+  const src = meta.hasSrc ? meta.attrs['src'] : undefined
+  if (!policy?.integrity || !src) return
+
+  let hash: string | undefined
+  try {
+    const url = new URL(normalizeAttr(src), baseUrl ?? document.baseURI).href
+    hash = policy.integrity[url]
+  } catch {
+    // Invalid URLs can't be in the map
+  }
+  if (!hash) {
+    throw new ScriptLoadError(
+      `scriptPolicy: ${src} has no entry in the integrity map`,
+      'blocked',
+      src,
+    )
+  }
+
+  meta.attrs['integrity'] = hash
+  meta.attrs['crossorigin'] ??= 'anonymous'
+}
+
+/**
+ * Evaluate a script policy for one script.
+ *
+ * The `beforeScriptExecute` callback receives the metadata object itself and may
+ * modify it (e.g. rewrite `attrs.src` or `code`) before the script is created.
+ *
+ * Relative sources are checked against `baseUrl`, which the renderers set to the
+ * base the script will load from (their `baseUrl` option, or the content's
+ * `<base href>`). The `rewriteUrl` hook is the embedder's own code, so the allowed
+ * sources apply to the URL before it.
+ *
+ * @param meta - Script metadata (may be mutated by the callback)
+ * @param policy - The script policy; undefined allows everything
+ * @param baseUrl - URL the `src` resolves against (default: the page's base URL)
+ * @returns The reason the script is blocked, or null if it may run
+ *
+ * @example
+ * ```ts
+ * const reason = await evaluateScriptPolicy(meta, {
+ *   allowedSources: ['https://cdn.example.com'],
+ *   allowInline: false,
+ * });
+ * if (reason) console.warn(`Blocked (${reason})`, meta);
+ * ```
+ */
+export async function evaluateScriptPolicy(
+  meta: IScriptMeta,
+  policy: IScriptPolicy | undefined,
+  baseUrl?: string,
+): Promise<ScriptBlockReason | null> {
+  if (!policy) return null
+
+  const staticReason = checkStaticPolicy(meta, policy, baseUrl)
+  if (staticReason) return staticReason
+
+  if (policy.beforeScriptExecute) {
+    const approved = await policy.beforeScriptExecute(meta)
+    if (!approved) return 'hook'
+    // Rewritten scripts must still satisfy the allow-lists
+    meta.hasSrc = !!meta.attrs['src']
+    meta.isModule = (meta.attrs['type'] || '').trim().toLowerCase() === 'module'
+    return checkStaticPolicy(meta, policy, baseUrl)
+  }
+
+  return null
+}
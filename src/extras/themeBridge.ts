@@ -0,0 +1,131 @@
+/**
+ * Host Theme Bridge for HTML Renderer Library
+ *
+ * Shadow mode isolates rendered content from the host page's styles. Two things
+ * still cross the shadow boundary by design, and this module uses both:
+ *
+ * - CSS custom properties inherit into shadow trees, so theme tokens set on the
+ *   shadow host (e.g. `--brand`) are visible to the content's `var(--brand)`
+ * - Elements with a `part` attribute can be styled from the host page with
+ *   `renderer::part(name)`
+ *
+ * Both helpers are framework-agnostic and remove what they applied before, so
+ * they can be called again whenever the theme or part map changes.
+ *
+ * @module themeBridge
+ */
+
+import type { ThemeParts, ThemeVariables } from './types'
+
+/**
+ * Part names assigned by assignParts, per element. Only these are removed on
+ * reassignment; `part` values written by the content itself are kept.
+ */
+const assignedParts = new WeakMap<Element, string[]>()
+
+/**
+ * Read the names of an element's `part` attribute.
+ *
+ * The attribute is used rather than `Element.part`, which not every DOM implementation has.
+ */
+function getPartNames(el: Element): string[] {
+  return (el.getAttribute('part') || '').split(/\s+/).filter(Boolean)
+}
+
+/**
+ * Write an element's `part` names, removing the attribute when none are left.
+ */
+function setPartNames(el: Element, names: string[]): void {
+  if (names.length > 0) el.setAttribute('part', names.join(' '))
+  else el.removeAttribute('part')
+}
+
+/**
+ * Normalize a theme key to a custom property name (`brand` → `--brand`).
+ */
+function toCustomProperty(name: string): string {
+  return name.startsWith('--') ? name : `--${name}`
+}
+
+/**
+ * Set CSS custom properties on an element, removing the ones it got before.
+ *
+ * @param el - The element to set the properties on (usually the shadow host)
+ * @param variables - Property names (with or without `--`) mapped to values;
+ *   `null`/`undefined` values are skipped
+ * @param previous - The property names returned by the previous call
+ * @returns The property names now set, to pass as `previous` next time
+ *
+ * @example
+ * ```ts
+ * let applied = applyCssVariables(host, { brand: '#0a7', '--radius': '8px' });
+ * applied = applyCssVariables(host, { brand: '#f50' }, applied); // removes --radius
+ * ```
+ */
+export function applyCssVariables(
+  el: HTMLElement,
+  variables: ThemeVariables | undefined,
+  previous: readonly string[] = [],
+): string[] {
+  const applied: string[] = []
+
+  Object.entries(variables ?? {}).forEach(([name, value]) => {
+    if (value === null || value === undefined) return
+    const property = toCustomProperty(name)
+    el.style.setProperty(property, String(value))
+    applied.push(property)
+  })
+
+  previous.forEach((property) => {
+    if (!applied.includes(property)) el.style.removeProperty(property)
+  })
+
+  return applied
+}
+
+/**
+ * Add `part` names to the elements matching selectors, so the host page can style
+ * them with `::part()`.
+ *
+ * Names assigned by a previous call on the same root are removed first. Invalid
+ * selectors are reported and skipped.
+ *
+ * @param root - The root to search (usually the shadow root)
+ * @param parts - Part names mapped to CSS selectors
+ *
+ * @example
+ * ```ts
+ * assignParts(shadowRoot, { cta: 'a.button, button', title: 'h1' });
+ * // Host CSS: html-renderer::part(cta) { background: var(--brand); }
+ * ```
+ */
+export function assignParts(root: ParentNode, parts: ThemeParts | undefined): void {
+  root.querySelectorAll('[part]').forEach((el) => {
+    const names = assignedParts.get(el)
+    if (!names) return
+    setPartNames(
+      el,
+      getPartNames(el).filter((name) => !names.includes(name)),
+    )
+    assignedParts.delete(el)
+  })
+
+  Object.entries(parts ?? {}).forEach(([name, selector]) => {
+    let matches: NodeListOf<Element>
+    try {
+      matches = root.querySelectorAll(selector)
+    } catch (e) {
+      console.warn(`themeBridge: invalid selector for part "${name}"`, e)
+      return
+    }
+    matches.forEach((el) => {
+      const current = getPartNames(el)
+      // Names the content already uses stay owned by the content
+      if (current.includes(name)) return
+      setPartNames(el, [...current, name])
+      // Entries may be stale when the attribute was rewritten (e.g. by a morph)
+      const assigned = (assignedParts.get(el) ?? []).filter((n) => current.includes(n))
+      assignedParts.set(el, [...assigned, name])
+    })
+  })
+}
@@ -6,30 +6,1114 @@
  * composables, and utilities.
  */
 
-import type { Ref } from 'vue'
+import type { Component, MaybeRefOrGetter, Ref } from 'vue'
+
+/**
+ * How re-renders update already rendered content.
+ *
+ * - `replace`: Clear the target and insert the newly parsed content
+ * - `morph`: Patch the existing DOM into the newly parsed tree, keeping unchanged
+ *   nodes (and their focus, scroll, form and animation state) in place
+ */
+export type UpdateStrategy = 'replace' | 'morph'
+
+/**
+ * Named sanitizer presets.
+ *
+ * - `strict`: Basic formatting, lists, tables, links and images; no styles
+ * - `email`: `strict` plus `<style>`, inline styles and legacy email markup
+ * - `trusted`: No allow-lists; only the custom hook runs
+ */
+export type SanitizePreset = 'strict' | 'email' | 'trusted'
+
+/**
+ * Sanitizer configuration.
+ *
+ * Every allow-list given here replaces the corresponding list of the preset.
+ */
+export interface ISanitizeOptions {
+  /**
+   * Preset to start from.
+   *
+   * @default 'strict'
+   */
+  preset?: SanitizePreset
+
+  /**
+   * Allowed tag names (lowercase), or `'*'` for all tags.
+   * `html`, `head` and `body` are always kept.
+   */
+  allowedTags?: string[] | '*'
+
+  /**
+   * Allowed attributes per tag name, with `'*'` as key for attributes allowed on
+   * every element. Entries may end with `*` to allow a prefix (e.g. `data-*`).
+   * Use `'*'` instead of a map to allow all attributes.
+   */
+  allowedAttributes?: Record<string, string[]> | '*'
+
+  /**
+   * Allowed URL schemes for URL attributes (`href`, `src`, `srcset`, ...),
+   * or `'*'` for any scheme. Relative URLs are always allowed.
+   */
+  allowedSchemes?: string[] | '*'
+
+  /**
+   * Whether inline event handlers (`on*` attributes) are kept.
+   */
+  allowEventHandlers?: boolean
+
+  /**
+   * Custom hook called for every element that passed the allow-lists.
+   * It may modify the element in place; returning `false` removes it.
+   */
+  hook?: (element: Element) => boolean | void
+}
+
+/**
+ * Why a script was not executed.
+ *
+ * - `inline`: Inline scripts are disabled by the policy
+ * - `module`: Module scripts are disabled by the policy
+ * - `source`: The `src` doesn't match any allowed source
+ * - `hook`: `beforeScriptExecute` vetoed the script
+ */
+export type ScriptBlockReason = 'inline' | 'module' | 'source' | 'hook'
+
+/**
+ * Why an external script failed (the `reason` of a ScriptLoadError).
+ *
+ * - `blocked`: Refused before loading, because it isn't in the `integrity` map
+ * - `integrity`: Loaded, but didn't match its integrity hash. Best effort: browsers
+ *   don't say why a script failed, so this relies on the status in the script's resource
+ *   timing entry; without one, the failure is reported as `network`
+ * - `network`: Failed to load
+ * - `timeout`: Didn't load within its timeout
+ */
+export type ScriptErrorReason = 'blocked' | 'integrity' | 'network' | 'timeout'
+
+/**
+ * Policy deciding which extracted scripts may be executed.
+ */
+export interface IScriptPolicy {
+  /**
+   * Allowed sources for external scripts. Each entry is one of:
+   * - `'self'`: Same origin as the page
+   * - An origin, e.g. `'https://cdn.example.com'`
+   * - A glob, e.g. `'https://cdn.example.com/libs/*.js'`
+   * - A URL prefix, e.g. `'https://cdn.example.com/libs/'`
+   * - A RegExp tested against the resolved URL
+   *
+   * When omitted, every source is allowed.
+   */
+  allowedSources?: (string | RegExp)[]
+
+  /**
+   * Whether inline scripts may run.
+   *
+   * @default true
+   */
+  allowInline?: boolean
+
+  /**
+   * Whether module scripts (`type="module"`) may run.
+   *
+   * @default true
+   */
+  allowModules?: boolean
+
+  /**
+   * Called for every script that passed the checks above, right before it is executed.
+   * Return `false` (or a promise of `false`) to veto it. The metadata may be modified
+   * to rewrite the script (e.g. `meta.attrs.src` or `meta.code`); the rewritten
+   * script is checked against the allow-lists again.
+   */
+  beforeScriptExecute?: (meta: IScriptMeta) => boolean | Promise<boolean>
+
+  /**
+   * Subresource Integrity hashes of the allowed external scripts, by URL (resolved
+   * against `baseUrl`), e.g. `{ 'https://cdn.example.com/widget.js': 'sha384-...' }`.
+   *
+   * Listed scripts get `integrity` and `crossorigin="anonymous"` (unless the content sets
+   * `crossorigin`). With the map, external scripts that aren't in it are refused and
+   * reported through `onScriptError` (a ScriptLoadError with reason `blocked`).
+   */
+  integrity?: Record<string, string>
+}
+
+/**
+ * How external scripts are loaded: timeouts, retries and fallbacks.
+ *
+ * A script's `data-timeout` and `data-retries` attributes override `timeout` and
+ * `retries` for that script. Once its retries are used up, a script with a
+ * `data-fallback-src` attribute is loaded from that URL instead (with the same retries),
+ * if the script policy allows it like any other script.
+ */
+export interface IScriptLoadOptions {
+  /**
+   * Milliseconds to wait for an external script. A script that takes longer is
+   * reported with reason `timeout` and the following scripts continue; it doesn't
+   * run if it arrives later. 0 waits indefinitely.
+   *
+   * @default 0
+   */
+  timeout?: number
+
+  /**
+   * How many times a script that failed or timed out is requested again.
+   *
+   * @default 0
+   */
+  retries?: number
+
+  /**
+   * Milliseconds before the first retry; doubled for every further retry.
+   *
+   * @default 500
+   */
+  retryDelay?: number
+}
+
+/**
+ * Callbacks invoked by the renderers while scripts are being executed.
+ */
+export interface IScriptExecutionHooks {
+  /**
+   * Called for every script that was not executed because of the script policy.
+   */
+  onScriptBlocked?: (meta: IScriptMeta, reason: ScriptBlockReason) => void
+
+  /**
+   * Called when an external script has loaded, or an inline script has executed.
+   */
+  onScriptLoaded?: (meta: IScriptMeta) => void
+
+  /**
+   * Called when an external script fails to load, an inline script throws while
+   * executing, or the script policy itself fails for a script. Failures of external
+   * scripts are ScriptLoadErrors, whose `reason` tells them apart.
+   * When omitted, load failures are logged to the console.
+   */
+  onScriptError?: (meta: IScriptMeta, error: unknown) => void
+}
+
+/**
+ * Callbacks for the render lifecycle of the renderer and the composable.
+ */
+export interface IHtmlRendererHooks extends IScriptExecutionHooks {
+  /**
+   * Called right before new content is rendered.
+   */
+  onBeforeRender?: () => void
+
+  /**
+   * Called when rendering has finished, including sequential and defer scripts.
+   * Not called for renders that were superseded by a newer one.
+   */
+  onRendered?: () => void
+
+  /**
+   * Called after previously rendered content was removed.
+   */
+  onCleared?: () => void
+
+  /**
+   * Called once the fonts of a render have loaded or failed. In modes other than
+   * shadow mode, fonts aren't tracked and this is called right after rendering.
+   */
+  onFontsLoaded?: () => void
+
+  /**
+   * Called for every message the content of an iframe-mode render sends through
+   * `htmlRendererBridge.send(type, payload)`.
+   */
+  onMessage?: (message: IIframeMessage) => void
+}
+
+/**
+ * Render progress reported by the renderer and the composable.
+ *
+ * - `idle`: Nothing rendered (before mount or after clear)
+ * - `rendering`: Content is being rendered or its scripts are still running
+ * - `rendered`: Content and all sequential/defer scripts are done
+ * - `error`: The last render failed
+ */
+export type RenderStatus = 'idle' | 'rendering' | 'rendered' | 'error'
+
+/**
+ * What a URL in the content refers to, as reported to `rewriteUrl`.
+ *
+ * - `link`: Navigation targets (`<a href>`, `<area href>`, form actions)
+ * - `image`: Images, including `srcset`, `poster` and CSS `url()` outside `@font-face`
+ * - `media`: Audio, video and text tracks
+ * - `frame`: Iframes, objects and embeds
+ * - `script`: External scripts
+ * - `stylesheet`: Linked and `@import`ed stylesheets
+ * - `font`: `url()` values of `@font-face` rules
+ * - `other`: Everything else (e.g. `<link rel="icon">`)
+ */
+export type UrlKind =
+  | 'link'
+  | 'image'
+  | 'media'
+  | 'frame'
+  | 'script'
+  | 'stylesheet'
+  | 'font'
+  | 'other'
+
+/**
+ * Where a URL passed to `rewriteUrl` was found.
+ */
+export interface IUrlRewriteContext {
+  /**
+   * The element holding the URL (the `<style>` or `<link>` element for URLs in CSS).
+   */
+  element: Element
+
+  /**
+   * The attribute holding the URL, or null for URLs in the text of a `<style>`
+   * element or a linked stylesheet.
+   */
+  attribute: string | null
+
+  /**
+   * What the URL refers to.
+   */
+  kind: UrlKind
+}
+
+/**
+ * Options for resolving and rewriting the URLs of rendered content.
+ */
+export interface IUrlRewriteOptions {
+  /**
+   * URL that relative URLs of the content resolve against, instead of the page's.
+   * A `<base href>` in the content is resolved against it and takes its place (also
+   * when only `rewriteUrl` is set), for scripts and the script policy as well.
+   */
+  baseUrl?: string
+
+  /**
+   * Called for every URL of the content (attributes, `srcset`, CSS `url()`, script
+   * `src`, hoisted `@font-face` rules) with the URL resolved against `baseUrl`;
+   * returns the URL to use. Empty values and in-page references (`#id`) are skipped.
+   */
+  rewriteUrl?: (url: string, context: IUrlRewriteContext) => string
+}
+
+/**
+ * A Trusted Types `TrustedHTML` value, e.g. from `policy.createHTML(html)`. The DOM
+ * typings don't include Trusted Types, so only its string conversion is declared.
+ */
+export interface ITrustedHTML {
+  toString(): string
+}
+
+/**
+ * A Trusted Types policy, as returned by `trustedTypes.createPolicy(name, rules)`.
+ */
+export interface ITrustedTypePolicy {
+  readonly name: string
+  createHTML?: (input: string) => unknown
+  createScript?: (input: string) => unknown
+  createScriptURL?: (input: string) => unknown
+}
+
+/**
+ * Options for pages with a strict Content Security Policy (see contentSecurity).
+ */
+export interface IContentSecurityOptions {
+  /**
+   * The page's CSP nonce, set on recreated `<script>` elements and on the `<style>`
+   * elements the renderers insert or create.
+   */
+  nonce?: string
+
+  /**
+   * The Trusted Types policy HTML and script sinks are written through: the name of a
+   * policy to create (it must be allowed by the `trusted-types` directive) or a policy
+   * object. Without one, only `TrustedHTML` content passes `require-trusted-types-for`.
+   *
+   * The named policy passes values on as they are, except that it runs the render's
+   * `sanitize` configuration on HTML when one is set; a policy object has to sanitize
+   * on its own.
+   */
+  trustedTypes?: string | ITrustedTypePolicy
+}
+
+/**
+ * Options for executing extracted scripts
+ */
+export interface IScriptExecutionOptions
+  extends IScriptExecutionHooks,
+    IUrlRewriteOptions,
+    IContentSecurityOptions {
+  /**
+   * Which scripts may be executed. When omitted, every script runs.
+   */
+  scriptPolicy?: IScriptPolicy
+
+  /**
+   * Timeouts, retries and fallbacks for external scripts. By default, a script is
+   * requested once and waited for indefinitely.
+   */
+  scriptLoading?: IScriptLoadOptions
+
+  /**
+   * Run inline classic scripts in a sandbox per render target (see scriptSandbox):
+   * globals they write stay in the sandbox and `document` queries only see the target.
+   * Module and external scripts still run in the page's global scope.
+   *
+   * @default false
+   */
+  sandboxScripts?: boolean
+
+  /**
+   * Track the timers, animation frames, listeners and mutation observers classic
+   * scripts create, and cancel them when the render target is cleared (see sideEffects).
+   * While any target is tracked, the timer, listener and observer APIs of the page are
+   * wrapped.
+   *
+   * @default false
+   */
+  trackSideEffects?: boolean
+}
+
+/**
+ * The sandbox inline scripts of a render target run in (see `sandboxScripts`).
+ */
+export interface IScriptSandbox {
+  /**
+   * The proxied window scripts see as `window`, `self`, `globalThis` and `this`.
+   * Holds the globals they wrote.
+   */
+  window: Window & typeof globalThis
+
+  /**
+   * The proxied document, whose queries are scoped to the render target
+   */
+  document: Document
+
+  /**
+   * The render target (host element or shadow root), bound to `root` in scripts
+   */
+  root: ParentNode
+
+  /**
+   * Drop the globals and remove the event handlers the scripts assigned
+   */
+  dispose(): void
+}
+
+/**
+ * Options for renderDirectly
+ */
+export interface IDirectRenderOptions extends IScriptExecutionOptions {
+  /**
+   * How to update existing content of the target.
+   * With `morph`, only new or changed scripts are executed.
+   *
+   * @default 'replace'
+   */
+  updateStrategy?: UpdateStrategy
+
+  /**
+   * Sanitize the parsed content before scripts are extracted and it is inserted.
+   * A preset name, a full configuration, or `false` to disable.
+   *
+   * @default false
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions | false
+}
+
+/**
+ * Options for renderIntoShadowRoot
+ */
+export interface IShadowRenderOptions extends IScriptExecutionOptions, IAdoptedStyleSheetOptions {
+  /**
+   * How to update existing content of the shadow root.
+   *
+   * @default 'replace'
+   */
+  updateStrategy?: UpdateStrategy
+
+  /**
+   * Sanitize the parsed document before fonts are extracted and it is inserted.
+   * A preset name, a full configuration, or `false` to disable.
+   *
+   * @default false
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions | false
+
+  /**
+   * Execute scripts inside the shadow tree.
+   *
+   * Scripts keep the direct renderer's ordering and script policy. Inline scripts
+   * get a `root` constant bound to the shadow root, e.g. `root.querySelector('#id')`.
+   *
+   * @default false
+   */
+  executeScripts?: boolean
+
+  /**
+   * Where and how @font-face rules are injected into the main document.
+   */
+  fonts?: IFontFaceExtractionOptions
+
+  /**
+   * The at-rule types hoisted into the main document.
+   *
+   * @default ['font-face']
+   */
+  hoistAtRules?: HoistableAtRule[]
+}
+
+/**
+ * Result of renderIntoShadowRoot
+ */
+export interface IShadowRenderResult {
+  /**
+   * The @font-face rules registered for the shadow root by this render.
+   * They stay in the main document until `releaseGlobalAtRules(shadowRoot)` is called.
+   */
+  fontFaces: string[]
+
+  /**
+   * Resolves once the fonts of this render (including those of linked
+   * stylesheets) have loaded or failed. Never rejects.
+   */
+  fontsReady: Promise<void>
+
+  /**
+   * Resolves when all sequential and defer scripts have completed
+   * (immediately when scripts are not executed).
+   */
+  scripts: Promise<void>
+
+  /**
+   * Resolves once linked stylesheets have been adopted (immediately without
+   * `adoptStyleSheets`). Never rejects.
+   */
+  styleSheets: Promise<void>
+}
+
+/**
+ * Options for renderServerHtml. URL rewriting (`baseUrl`, `rewriteUrl`) needs a DOM
+ * like sanitizing, so content using it isn't rendered on the server at all.
+ */
+export interface IServerRenderOptions extends IUrlRewriteOptions {
+  /**
+   * Sanitizer configuration of the client render. Sanitizing needs a DOM, so
+   * sanitized content isn't rendered on the server at all.
+   *
+   * @default false
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions | false
+
+  /**
+   * Shadow root options, emitted as declarative shadow root attributes. Closed roots
+   * aren't rendered on the server, since the client couldn't reach them to hydrate.
+   */
+  shadowRootInit?: IShadowRootInitOptions
+
+  /**
+   * The page's CSP nonce, set on the `<style>` elements of the server output so they
+   * apply before the client hydrates.
+   */
+  nonce?: string
+}
+
+/**
+ * Options for sharing stylesheets between shadow roots through `adoptedStyleSheets`.
+ */
+export interface IAdoptedStyleSheetOptions {
+  /**
+   * Convert `<style>` elements and same-origin `<link rel="stylesheet">` targets of
+   * the content into constructable stylesheets, cached by content hash and shared
+   * by every shadow root through `adoptedStyleSheets`. All or none are adopted, to
+   * keep their order: if one uses `@import` or is cross-origin, they all stay in the
+   * tree. Ignored where `adoptedStyleSheets` isn't supported.
+   *
+   * @default false
+   */
+  adoptStyleSheets?: boolean
+
+  /**
+   * Host-app stylesheets (e.g. design tokens) adopted into every shadow root, before
+   * the content's own styles. Strings are converted to cached constructed sheets.
+   * Where the content's stylesheets stay in the tree (or without `adoptedStyleSheets`
+   * support), they are inserted as `<style>` elements ahead of them instead.
+   */
+  hostStyleSheets?: (CSSStyleSheet | string)[]
+}
+
+/**
+ * Options passed to `attachShadow` when the shadow root is created.
+ */
+export interface IShadowRootInitOptions {
+  /**
+   * Shadow root mode. A `closed` root isn't reachable through `host.shadowRoot`
+   * (the composable's `shadowRoot` ref stays undefined), but the renderer keeps
+   * its own reference to render into and clear it.
+   *
+   * @default 'open'
+   */
+  mode?: ShadowRootMode
+
+  /**
+   * Forward focus to the first focusable element inside the shadow tree.
+   *
+   * @default false
+   */
+  delegatesFocus?: boolean
+
+  /**
+   * How light-DOM children are assigned to slots. With `manual`, the host's
+   * children are assigned through `slot.assign()` after each non-shadow render, and
+   * shadow-mode content isn't rendered on the server (see renderServerHtml).
+   *
+   * @default 'named'
+   */
+  slotAssignment?: SlotAssignmentMode
+
+  /**
+   * Include the shadow root in `getHTML({ serializableShadowRoots: true })`.
+   *
+   * @default false
+   */
+  serializable?: boolean
+}
+
+/**
+ * A message exchanged with the content of an iframe-mode render.
+ */
+export interface IIframeMessage<T = unknown> {
+  /**
+   * Application-defined message type.
+   */
+  type: string
+
+  /**
+   * Message payload. Must be structured-cloneable.
+   */
+  payload?: T
+}
+
+/**
+ * Configuration of the iframe used by iframe mode.
+ */
+export interface IIframeOptions {
+  /**
+   * Value of the iframe's `sandbox` attribute.
+   *
+   * The default only allows scripts, which keeps the content in an opaque origin
+   * without access to the host page. Without `allow-scripts` the content can't
+   * resize the iframe or use the message bridge.
+   *
+   * @default 'allow-scripts'
+   */
+  sandbox?: string
+
+  /**
+   * Resize the iframe's height to its content.
+   *
+   * @default true
+   */
+  autoResize?: boolean
+
+  /**
+   * Value of the iframe's `allow` attribute (permissions policy), e.g. `'fullscreen'`.
+   */
+  allow?: string
+
+  /**
+   * Accessible title of the iframe.
+   */
+  title?: string
+}
+
+/**
+ * Options for renderIntoIframe
+ */
+export interface IIframeRenderOptions extends IIframeOptions, IContentSecurityOptions {
+  /**
+   * Sanitize the parsed document before it is written into the iframe.
+   *
+   * @default false
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions | false
+
+  /**
+   * Called for messages sent by the content through the bridge.
+   */
+  onMessage?: (message: IIframeMessage) => void
+}
+
+/**
+ * Result of renderIntoIframe
+ */
+export interface IIframeRenderResult {
+  /**
+   * The created iframe element.
+   */
+  iframe: HTMLIFrameElement
+
+  /**
+   * Resolves when the iframe document has loaded, or once the iframe is disposed.
+   */
+  loaded: Promise<void>
+
+  /**
+   * Send a message to the content; delivered to `htmlRendererBridge.on(type, ...)` handlers.
+   */
+  postMessage: <T = unknown>(type: string, payload?: T) => void
+
+  /**
+   * Stop listening for messages and remove the iframe.
+   */
+  dispose: () => void
+}
+
+/**
+ * Options for createHtmlRenderer, the framework-agnostic renderer.
+ *
+ * The same options as the composable's, as plain values. Change them with
+ * `update()`.
+ */
+export interface IHtmlRendererCoreOptions
+  extends IHtmlRendererHooks,
+    IAdoptedStyleSheetOptions,
+    IUrlRewriteOptions,
+    IContentSecurityOptions {
+  /**
+   * The raw HTML string (or `TrustedHTML`) to be rendered.
+   * Can be a complete HTML document or a fragment. Ignored while `src` is set.
+   */
+  html?: string | ITrustedHTML
+
+  /**
+   * URL of the HTML to render, fetched (see fetchHtml) instead of using `html`.
+   * Relative URLs in the loaded HTML resolve against it, unless `baseUrl` is set. A
+   * new render aborts the request of the previous one.
+   */
+  src?: string
+
+  /**
+   * The rendering mode.
+   *
+   * @default RenderMode.Direct
+   */
+  mode?: RenderMode
+
+  /**
+   * Configuration of the iframe in iframe mode.
+   */
+  iframe?: IIframeOptions
+
+  /**
+   * Options for `attachShadow`. Only read when the shadow root is attached.
+   *
+   * @default { mode: 'open' }
+   */
+  shadowRootInit?: IShadowRootInitOptions
+
+  /**
+   * Where and how @font-face rules of shadow-mode content are injected into the
+   * main document.
+   */
+  fonts?: IFontFaceExtractionOptions
+
+  /**
+   * The at-rule types of shadow-mode content hoisted into the main document.
+   *
+   * @default ['font-face']
+   */
+  hoistAtRules?: HoistableAtRule[]
+
+  /**
+   * CSS custom properties set on the host element, e.g. `{ brand: '#0a7' }` sets `--brand`.
+   */
+  theme?: ThemeVariables
+
+  /**
+   * Part names mapped to CSS selectors, assigned to matching shadow-mode elements.
+   */
+  parts?: ThemeParts
+
+  /**
+   * Names of the regions resolved into `slotTargets` after every render.
+   */
+  slotNames?: string[]
+
+  /**
+   * How re-renders update the content already on screen.
+   *
+   * @default 'replace'
+   */
+  updateStrategy?: UpdateStrategy
+
+  /**
+   * Sanitize the HTML before it is inserted.
+   *
+   * @default false
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions | false
+
+  /**
+   * Which scripts may be executed. When omitted, every script runs.
+   */
+  scriptPolicy?: IScriptPolicy
+
+  /**
+   * Timeouts, retries and fallbacks for external scripts.
+   */
+  scriptLoading?: IScriptLoadOptions
+
+  /**
+   * Execute scripts in shadow mode.
+   *
+   * @default false
+   */
+  executeScripts?: boolean
+
+  /**
+   * Run inline scripts in a sandbox per renderer, with their own globals.
+   *
+   * @default false
+   */
+  sandboxScripts?: boolean
+
+  /**
+   * Cancel the timers, listeners and observers scripts created when the content is
+   * cleared or replaced.
+   *
+   * @default false
+   */
+  trackSideEffects?: boolean
+
+  /**
+   * Called after every direct- and shadow-mode render with the rendered content
+   * (the host, or the shadow root), e.g. to mount framework components into it. The
+   * returned function is called before the content is re-rendered or cleared.
+   */
+  mountContent?: (root: ParentNode) => (() => void) | void
+
+  /**
+   * Called whenever the render status changes.
+   */
+  onStatusChange?: (status: RenderStatus) => void
+
+  /**
+   * Called whenever loading `src` starts, succeeds or fails.
+   */
+  onLoadStateChange?: (loading: boolean, error: unknown) => void
+
+  /**
+   * Called whenever the slot regions were resolved again (after every render and clear).
+   */
+  onSlotTargetsChange?: (targets: Record<string, Element>) => void
+}
+
+/**
+ * Renderer returned by createHtmlRenderer
+ */
+export interface IHtmlRenderer {
+  /**
+   * Render the content, replacing or morphing the previous output. The first call
+   * hydrates server-rendered output of the same content instead.
+   *
+   * @param html - New content; defaults to the `html` option
+   * @returns Resolves once the render, including sequential and defer scripts, has
+   *   completed (or was superseded by a newer render); rejects if it fails
+   */
+  render: (html?: string | ITrustedHTML) => Promise<void>
+
+  /**
+   * Change options. A changed `html`, `src`, `baseUrl` or `mode` re-renders; `theme` and `parts` are
+   * applied in place; other options take effect on the next render.
+   */
+  update: (options: Partial<IHtmlRendererCoreOptions>) => Promise<void>
+
+  /**
+   * Remove the rendered content.
+   */
+  clear: () => void
+
+  /**
+   * Remove the content and everything else the renderer added to the page. The
+   * renderer can't render again afterwards.
+   */
+  destroy: () => void
+
+  /**
+   * Send a message to the content of an iframe-mode render.
+   */
+  postMessage: <T = unknown>(type: string, payload?: T) => void
+
+  /**
+   * Settles with the first render that completes or fails (superseded renders don't
+   * count). It doesn't settle again; the promises of `render()` and `update()` report
+   * on later renders.
+   */
+  ready: Promise<void>
+
+  /**
+   * Resolves once the fonts of the first render have loaded or failed.
+   */
+  fontsReady: Promise<void>
+
+  /**
+   * Current render status.
+   */
+  readonly status: RenderStatus
+
+  /**
+   * The shadow root, once shadow mode has been rendered (never for closed roots).
+   */
+  readonly shadowRoot: ShadowRoot | undefined
+
+  /**
+   * Elements slot content goes into, by the names in `slotNames`.
+   */
+  readonly slotTargets: Record<string, Element>
+
+  /**
+   * Whether the HTML of `src` is being loaded.
+   */
+  readonly loading: boolean
+
+  /**
+   * Why loading `src` failed; undefined once a load succeeds.
+   */
+  readonly error: unknown
+}
 
 /**
  * Configuration options for the HTML renderer composable
  */
-export interface IHtmlRendererOptions {
+export interface IHtmlRendererOptions extends IHtmlRendererHooks {
+  /**
+   * The raw HTML string to be rendered.
+   * Can be a complete HTML document or a fragment.
+   *
+   * Accepts a plain string, a ref or a getter. When a ref or getter is passed,
+   * the content is re-rendered whenever the value changes. Ignored while `src` is set.
+   */
+  html?: MaybeRefOrGetter<string | ITrustedHTML | undefined>
+
+  /**
+   * URL of the HTML to render, fetched instead of using `html`.
+   *
+   * Relative URLs of the loaded HTML (links, images, scripts, stylesheets) are
+   * resolved against it. Responses are cached and revalidated with their ETag.
+   * Changing the URL or unmounting aborts a pending request; progress is reported
+   * through `loading` and `error`.
+   *
+   * Accepts a ref or getter.
+   */
+  src?: MaybeRefOrGetter<string | undefined>
+
+  /**
+   * URL that relative URLs of the content (`src`, `href`, `srcset`, CSS `url()`)
+   * resolve against, instead of the page's; defaults to `src` for loaded content.
+   * Not applied in iframe mode.
+   *
+   * Accepts a ref or getter; changing it re-renders the content.
+   */
+  baseUrl?: MaybeRefOrGetter<string | undefined>
+
+  /**
+   * Called for every URL of the content, resolved against `baseUrl`, with where it
+   * was found (`element`, `attribute`, `kind`); returns the URL to use, e.g. one
+   * routed through a CDN proxy. Not applied in iframe mode.
+   */
+  rewriteUrl?: (url: string, context: IUrlRewriteContext) => string
+
+  /**
+   * The rendering mode.
+   *
+   * - `RenderMode.Direct` (default): Renders HTML directly with script execution support.
+   * - `RenderMode.Shadow`: Renders HTML in an isolated Shadow DOM with style scoping.
+   * - `RenderMode.Iframe`: Renders HTML into a sandboxed `srcdoc` iframe that
+   *   resizes to its content. Use this for untrusted content.
+   *
+   * Accepts a ref or getter; switching the mode clears the previous output
+   * and re-renders in the new mode. Takes precedence over `isShadow`.
+   *
+   * @default RenderMode.Direct
+   */
+  mode?: MaybeRefOrGetter<RenderMode | undefined>
+
+  /**
+   * Whether to render in Shadow DOM mode.
+   *
+   * @deprecated Use `mode: RenderMode.Shadow` instead. Only used when `mode` is not set.
+   * @default false
+   */
+  isShadow?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Configuration of the iframe in iframe mode.
+   */
+  iframe?: MaybeRefOrGetter<IIframeOptions | undefined>
+
+  /**
+   * Options for `attachShadow` (mode, delegatesFocus, slotAssignment, serializable).
+   *
+   * The shadow root is attached once, on the first shadow render, so changes made
+   * after that have no effect.
+   *
+   * @default { mode: 'open' }
+   */
+  shadowRootInit?: IShadowRootInitOptions
+
   /**
-   * The raw HTML string to be rendered.
-   * Can be a complete HTML document or a fragment.
+   * Where and how @font-face rules of shadow-mode content are injected into the
+   * main document. Rules are reference-counted across renderer instances and
+   * removed once the last instance using them is cleared or unmounted.
    */
-  html: string
+  fonts?: IFontFaceExtractionOptions
 
   /**
-   * Whether to render in Shadow DOM mode.
+   * The at-rule types of shadow-mode content hoisted into the main document, with
+   * the same de-duplication and cleanup as @font-face. Read once, when the
+   * composable is created.
+   *
+   * @default ['font-face']
+   */
+  hoistAtRules?: HoistableAtRule[]
+
+  /**
+   * Share the content's stylesheets between shadow roots through `adoptedStyleSheets`
+   * (shadow mode only).
+   *
+   * @default false
+   */
+  adoptStyleSheets?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Host-app stylesheets (e.g. design tokens) adopted into every shadow root
+   * (shadow mode only).
+   */
+  hostStyleSheets?: MaybeRefOrGetter<(CSSStyleSheet | string)[] | undefined>
+
+  /**
+   * CSS custom properties set on the host element, e.g. `{ brand: '#0a7' }` sets
+   * `--brand`. They inherit into shadow-mode and direct-mode content. Updated
+   * whenever the value changes (deeply), without re-rendering.
+   */
+  theme?: MaybeRefOrGetter<ThemeVariables | undefined>
+
+  /**
+   * Part names mapped to CSS selectors. Matching elements of shadow-mode content get
+   * the name added to their `part` attribute, so the host page can style them with
+   * `::part(name)`. Reapplied after every render and whenever the map changes.
+   */
+  parts?: MaybeRefOrGetter<ThemeParts | undefined>
+
+  /**
+   * Components mounted on the `<vue-widget name="...">` placeholders of direct- and
+   * shadow-mode content, by name. Props are read from the placeholder's `data-props`
+   * JSON. Components share the host component's `appContext` (plugins, global
+   * components, app-level provides) and are unmounted before every re-render, on
+   * `clear()` and on unmount.
+   */
+  components?: MaybeRefOrGetter<Record<string, Component> | undefined>
+
+  /**
+   * Names of the regions resolved into `slotTargets` after every render: the
+   * `[data-slot="name"]` element of the content or, in shadow mode, a light-DOM
+   * wrapper projected through the content's `<slot name="name">`.
+   */
+  slotNames?: MaybeRefOrGetter<string[] | undefined>
+
+  /**
+   * How re-renders update the content already on screen.
+   *
+   * - `'replace'` (default): Clear and re-insert everything
+   * - `'morph'`: Patch the existing DOM in place, matching elements by `id` or
+   *   `data-key`, and only re-execute scripts whose content or `src` changed
+   *
+   * Switching between modes always replaces the content. Iframe mode always
+   * replaces the iframe document.
+   *
+   * @default 'replace'
+   */
+  updateStrategy?: MaybeRefOrGetter<UpdateStrategy>
+
+  /**
+   * Sanitize the HTML before it is inserted, in both modes.
    *
-   * - `false` (default): Renders HTML directly with script execution support.
-   *   Use this when you need JavaScript to run (e.g., interactive content).
+   * - A preset name: `'strict'`, `'email'` or `'trusted'`
+   * - A configuration object with allow-lists and a custom hook
+   * - `false` (default): No sanitization
    *
-   * - `true`: Renders HTML in an isolated Shadow DOM with style scoping.
-   *   Use this when you need style isolation and don't need script execution.
+   * In direct mode sanitization runs before scripts are extracted, so scripts
+   * removed by the policy never execute.
    *
    * @default false
    */
-  isShadow?: boolean
+  sanitize?: MaybeRefOrGetter<SanitizePreset | ISanitizeOptions | false>
+
+  /**
+   * Which scripts may be executed: allowed sources, inline and module scripts,
+   * and a per-script approval callback. Blocked scripts are
+   * reported through `onScriptBlocked`.
+   *
+   * When omitted, every script runs.
+   */
+  scriptPolicy?: MaybeRefOrGetter<IScriptPolicy | undefined>
+
+  /**
+   * Timeouts, retries and fallbacks for external scripts, so a hung script can't
+   * hold up the scripts after it (and the render) forever. Scripts can override them
+   * with `data-timeout`, `data-retries` and `data-fallback-src`.
+   *
+   * By default, a script is requested once and waited for indefinitely.
+   */
+  scriptLoading?: MaybeRefOrGetter<IScriptLoadOptions | undefined>
+
+  /**
+   * Execute scripts in shadow mode.
+   *
+   * Scripts are recreated inside the shadow tree with the same ordering and
+   * script policy as direct mode. Inline scripts get a `root` constant bound
+   * to the shadow root so they can find their own elements.
+   *
+   * @default false
+   */
+  executeScripts?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Run inline scripts in a sandbox per instance: a proxied `window` that keeps the
+   * globals they write (including `on*` handlers) and a `document` whose queries are
+   * scoped to the rendered content, so widgets don't overwrite each other's globals.
+   *
+   * @default false
+   */
+  sandboxScripts?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Track the timers, animation frames, listeners and mutation observers scripts
+   * create, and cancel them when the content is cleared, replaced or unmounted. The
+   * page's timer, listener and observer APIs are wrapped while content is tracked.
+   *
+   * @default false
+   */
+  trackSideEffects?: MaybeRefOrGetter<boolean>
+
+  /**
+   * The page's CSP nonce, set on recreated scripts and inserted `<style>` elements
+   * (see IContentSecurityOptions).
+   */
+  nonce?: string
+
+  /**
+   * Trusted Types policy (name or object) for the HTML and script sinks of the
+   * renderers; read once.
+   */
+  trustedTypes?: string | ITrustedTypePolicy
 }
 
 /**
@@ -56,10 +1140,78 @@ export interface IHtmlRendererComposable {
   clear: () => void
 
   /**
-   * Reference to the Shadow Root (only available when isShadow=true).
-   * Will be undefined in non-shadow mode.
+   * Reference to the Shadow Root (only available in shadow mode).
+   * Will be undefined until shadow mode is first rendered, and always for
+   * closed shadow roots.
    */
   shadowRoot?: Ref<ShadowRoot | undefined>
+
+  /**
+   * Settles with the first render that completes (including sequential and defer
+   * scripts) or fails. It doesn't settle again;
+   * `status` tracks later renders.
+   */
+  ready: Promise<void>
+
+  /**
+   * Current render status; tracks every re-render.
+   */
+  status: Ref<RenderStatus>
+
+  /**
+   * Whether the HTML of `src` is being loaded.
+   */
+  loading: Ref<boolean>
+
+  /**
+   * Why loading `src` failed; undefined once a load succeeds.
+   */
+  error: Ref<unknown>
+
+  /**
+   * Resolves once the fonts of the first render have loaded or failed (see
+   * `onFontsLoaded` for later renders). Never rejects.
+   */
+  fontsReady: Promise<void>
+
+  /**
+   * Send a message to the content of an iframe-mode render.
+   * Does nothing in the other modes.
+   */
+  postMessage: <T = unknown>(type: string, payload?: T) => void
+
+  /**
+   * Elements to teleport slot content into, by the names in `slotNames`. Updated
+   * after every render and emptied by `clear()`.
+   */
+  slotTargets: Ref<Record<string, Element>>
+
+  /**
+   * The host's content during server-side rendering (see renderServerHtml), bound
+   * with `v-html` on the host. Always undefined in the browser.
+   */
+  serverHtml: Readonly<Ref<string | undefined>>
+}
+
+/**
+ * Attributes and properties of the `<html-renderer>` custom element
+ */
+export interface IHtmlRendererElementProps {
+  /**
+   * The raw HTML string to be rendered. Ignored while `src` is set.
+   */
+  html?: string
+
+  /**
+   * The rendering mode: `direct` (default), `shadow` or `iframe`.
+   */
+  mode?: RenderMode
+
+  /**
+   * URL of the HTML to render, fetched instead of using `html`. Changing it aborts
+   * the previous request.
+   */
+  src?: string
 }
 
 /**
@@ -67,10 +1219,34 @@ export interface IHtmlRendererComposable {
  */
 export interface IHtmlRendererProps {
   /**
-   * The raw HTML string to be rendered.
-   * Required prop that contains the content to display.
+   * The raw HTML string (or `TrustedHTML`) to be rendered. Ignored while `src` is set.
+   */
+  html?: string | ITrustedHTML
+
+  /**
+   * URL of the HTML to render, fetched instead of using `html` (see the `src`
+   * option of useHtmlRenderer). The `loading` and `error` slots are shown while it
+   * loads and when it failed.
+   */
+  src?: string
+
+  /**
+   * URL that relative URLs of the content resolve against (see the `baseUrl`
+   * option of useHtmlRenderer).
+   */
+  baseUrl?: string
+
+  /**
+   * Hook rewriting every URL of the content (see the `rewriteUrl` option of
+   * useHtmlRenderer).
+   */
+  rewriteUrl?: (url: string, context: IUrlRewriteContext) => string
+
+  /**
+   * The rendering mode: `direct` (default), `shadow` or `iframe`.
+   * Takes precedence over `isShadow`.
    */
-  html: string
+  mode?: RenderMode
 
   /**
    * Whether to render in Shadow DOM mode.
@@ -78,9 +1254,123 @@ export interface IHtmlRendererProps {
    * - `false` (default): Direct rendering with script execution
    * - `true`: Shadow DOM rendering with style isolation
    *
+   * @deprecated Use `mode="shadow"` instead. Only used when `mode` is not set.
    * @default false
    */
   isShadow?: boolean
+
+  /**
+   * Configuration of the iframe in iframe mode (sandbox flags, auto-resize).
+   */
+  iframe?: IIframeOptions
+
+  /**
+   * Options for `attachShadow`, e.g. `{ mode: 'closed', delegatesFocus: true }`.
+   * Read once, when the shadow root is created.
+   */
+  shadowRootInit?: IShadowRootInitOptions
+
+  /**
+   * Style element ID and duplicate handling for injected @font-face rules.
+   */
+  fonts?: IFontFaceExtractionOptions
+
+  /**
+   * At-rule types hoisted into the main document in shadow mode.
+   *
+   * @default ['font-face']
+   */
+  hoistAtRules?: HoistableAtRule[]
+
+  /**
+   * Share the content's stylesheets between shadow roots through `adoptedStyleSheets`
+   * (shadow mode only).
+   *
+   * @default false
+   */
+  adoptStyleSheets?: boolean
+
+  /**
+   * Host-app stylesheets (e.g. design tokens) adopted into every shadow root
+   * (shadow mode only).
+   */
+  hostStyleSheets?: (CSSStyleSheet | string)[]
+
+  /**
+   * CSS custom properties set on the host element (`--` prefix optional).
+   */
+  theme?: ThemeVariables
+
+  /**
+   * Part names mapped to selectors; matching shadow-mode elements get that `part`.
+   */
+  parts?: ThemeParts
+
+  /**
+   * Components mounted on `<vue-widget name>` placeholders, by name (props from `data-props`).
+   */
+  components?: Record<string, Component>
+
+  /**
+   * How updates to `html` are applied.
+   *
+   * - `'replace'` (default): Clear and re-insert everything
+   * - `'morph'`: Patch the existing DOM in place (keeps focus, scroll and form state)
+   *
+   * @default 'replace'
+   */
+  updateStrategy?: UpdateStrategy
+
+  /**
+   * Sanitize the HTML before it is inserted.
+   * A preset name (`'strict'`, `'email'`, `'trusted'`), a configuration object,
+   * or `false` to disable.
+   *
+   * @default false
+   */
+  sanitize?: SanitizePreset | ISanitizeOptions | false
+
+  /**
+   * Which scripts may be executed.
+   * Blocked scripts are reported through the `scriptBlocked` event.
+   */
+  scriptPolicy?: IScriptPolicy
+
+  /**
+   * Timeouts, retries and fallbacks for external scripts.
+   */
+  scriptLoading?: IScriptLoadOptions
+
+  /**
+   * Execute scripts in shadow mode, scoped to the shadow root.
+   *
+   * @default false
+   */
+  executeScripts?: boolean
+
+  /**
+   * Run inline scripts in a sandbox per instance, with their own globals.
+   *
+   * @default false
+   */
+  sandboxScripts?: boolean
+
+  /**
+   * Cancel the timers, listeners and observers scripts created on clear and unmount.
+   *
+   * @default false
+   */
+  trackSideEffects?: boolean
+
+  /**
+   * The page's CSP nonce, set on recreated scripts and inserted `<style>` elements.
+   */
+  nonce?: string
+
+  /**
+   * Trusted Types policy (name or object) for the HTML and script sinks; read once.
+   */
+  trustedTypes?: string | ITrustedTypePolicy
 }
 
 /**
@@ -142,13 +1432,100 @@ export enum RenderMode {
 
   /**
    * Shadow DOM rendering with style isolation.
-   * Scripts are NOT executed; styles are scoped to shadow tree.
+   * Scripts are NOT executed unless opted in; styles are scoped to shadow tree.
    */
   Shadow = 'shadow',
+
+  /**
+   * Sandboxed `srcdoc` iframe rendering for untrusted content.
+   * Scripts run only if the sandbox allows them, in an opaque origin; the
+   * iframe resizes to its content and talks to the host through postMessage.
+   */
+  Iframe = 'iframe',
+}
+
+/**
+ * How hoisted @font-face rules are added to the main document.
+ *
+ * - `style`: As CSS text in a shared `<style>` element in `<head>`
+ * - `fontface`: As `FontFace` objects in `document.fonts` (CSS Font Loading API);
+ *   falls back to `style` where the API isn't available
+ */
+export type FontInjectionStrategy = 'style' | 'fontface'
+
+/**
+ * At-rule types that can be hoisted out of shadow trees into the main document.
+ *
+ * - `font-face`: Fonts declared in a shadow tree may not load
+ * - `property`: `@property` registrations are ignored inside shadow trees
+ * - `counter-style`: Custom counter styles are scoped inconsistently across browsers
+ * - `font-feature-values`: Named font features, tied to their @font-face families
+ */
+export type HoistableAtRule = 'font-face' | 'property' | 'counter-style' | 'font-feature-values'
+
+/**
+ * CSS custom properties applied to the renderer's host element.
+ *
+ * Keys may omit the `--` prefix; `null`/`undefined` values are skipped.
+ */
+export type ThemeVariables = Record<string, string | number | null | undefined>
+
+/**
+ * Part names mapped to the CSS selectors of the elements that get them.
+ */
+export type ThemeParts = Record<string, string>
+
+/**
+ * Options of hoistGlobalAtRules: the font options plus the at-rule types to hoist.
+ */
+export interface IAtRuleHoistingOptions extends IFontFaceExtractionOptions {
+  /**
+   * The at-rule types to hoist.
+   *
+   * @default ['font-face']
+   */
+  atRules?: HoistableAtRule[]
+
+  /**
+   * Applied to the `url()` values of rules from linked stylesheets, once resolved
+   * against the stylesheet. Rules of `<style>` elements are expected to be rewritten
+   * already (see rewriteTreeUrls).
+   */
+  rewriteUrl?: IUrlRewriteOptions['rewriteUrl']
+
+  /**
+   * The page's CSP nonce, set on the created style element.
+   */
+  nonce?: string
+}
+
+/**
+ * Result of hoistGlobalAtRules
+ */
+export interface IAtRuleHoistingResult {
+  /**
+   * The hoisted rules of the document's `<style>` elements, now registered for the owner.
+   */
+  rules: string[]
+
+  /**
+   * The @font-face rules among `rules`.
+   */
+  fontFaces: string[]
+
+  /**
+   * Resolves once linked stylesheets have been scanned and every registered font
+   * has loaded or failed. Never rejects.
+   */
+  loaded: Promise<void>
 }
 
 /**
  * Configuration for font-face extraction (Shadow DOM mode only)
+ *
+ * Renderers sharing a `styleElementId` share one style element; each rule is
+ * kept while at least one of them uses it. The same element holds the other
+ * hoisted at-rules (see HoistableAtRule).
  */
 export interface IFontFaceExtractionOptions {
   /**
@@ -161,9 +1538,72 @@ export interface IFontFaceExtractionOptions {
 
   /**
    * Whether to avoid duplicate font-face rules.
-   * When true, only unique rules are injected.
+   * When true, only unique rules are injected; when false, every renderer's
+   * rules are written to the style element separately.
    *
    * @default true
    */
   preventDuplicates?: boolean
+
+  /**
+   * How the rules are added to the main document.
+   *
+   * @default 'style'
+   */
+  injection?: FontInjectionStrategy
+
+  /**
+   * Also hoist at-rules from `<link rel="stylesheet">` targets. The
+   * stylesheets are fetched (they must be same-origin or served with CORS) and
+   * relative URLs are resolved against the stylesheet. Off by default: the content
+   * decides which URLs are requested, so only enable it for content you trust.
+   *
+   * @default false
+   */
+  linkedStylesheets?: boolean
+
+  /**
+   * Keep the host `visibility: hidden` until the fonts of a render have loaded
+   * (or `revealTimeout` has passed), avoiding a flash of fallback fonts.
+   * Used by the composable in shadow mode.
+   *
+   * @default false
+   */
+  hideUntilLoaded?: boolean
+
+  /**
+   * Milliseconds after which hidden content is revealed even if fonts are
+   * still loading.
+   *
+   * @default 3000
+   */
+  revealTimeout?: number
+}
+
+/**
+ * A token of the CSS tokenizer.
+ *
+ * `value` is the token's source text, except for `at-keyword` tokens where it is
+ * the name without the `@`. `start`/`end` are offsets into the tokenized source.
+ */
+export interface ICssToken {
+  type: 'at-keyword' | 'string' | 'url' | 'comment' | '{' | '}' | ';' | 'whitespace' | 'other'
+  value: string
+  start: number
+  end: number
+}
+
+/**
+ * A block at-rule found by extractAtRules.
+ */
+export interface ICssAtRule {
+  /**
+   * The lowercased at-rule name without `@`, e.g. `font-face`.
+   */
+  name: string
+
+  /**
+   * The complete rule source, from the at-keyword to the closing brace.
+   */
+  text: string
 }
@@ -0,0 +1,249 @@
+/**
+ * URL Rewriting for HTML Renderer Library
+ *
+ * HTML saved from another origin (or loaded from `src`) references its assets with
+ * URLs relative to where it came from; inserted into the page, they would resolve
+ * against the page instead. The renderers use this module to resolve them against a
+ * `baseUrl` and to pass every URL through a `rewriteUrl` hook, e.g. to route assets
+ * through a CDN proxy.
+ *
+ * Key Features:
+ * - URL attributes (`href`, `src`, `srcset`, `poster`, `action`, ...) of a parsed tree
+ * - `url()` references in `<style>` elements and `style` attributes, and `@import`s
+ * - A kind per URL (image, script, stylesheet, font, ...) so the hook can route by type
+ * - A `<base href>` of the content takes the place of `baseUrl` (and is removed, since
+ *   in direct mode it would change the base URL of the whole page); the renderers
+ *   load the content's scripts from the base it sets
+ *
+ * Empty values and in-page references (`#id`) are never rewritten.
+ *
+ * @module urlRewriter
+ */
+
+import { tokenizeCss } from './cssTokenizer'
+import type { IUrlRewriteContext, IUrlRewriteOptions, UrlKind } from './types'
+
+/**
+ * Attributes holding a single URL. `<script src>` is left to createExecutableScript.
+ */
+const URL_ATTRIBUTES = ['href', 'xlink:href', 'src', 'poster', 'action', 'formaction', 'data']
+
+/**
+ * Whether rewriting is configured at all.
+ *
+ * @param options - The URL rewrite options
+ * @returns True if `baseUrl` or `rewriteUrl` is set
+ */
+export function hasUrlRewriting(options: IUrlRewriteOptions): boolean {
+  return !!options.baseUrl || !!options.rewriteUrl
+}
+
+/**
+ * Resolve a URL against `baseUrl` and pass it through `rewriteUrl`.
+ *
+ * @param url - The URL as written in the content
+ * @param context - Where the URL was found
+ * @param options - Base URL and hook
+ * @returns The rewritten URL; unchanged for empty values and in-page references
+ *
+ * @example
+ * ```ts
+ * rewriteUrl('logo.png', { element: img, attribute: 'src', kind: 'image' }, {
+ *   baseUrl: 'https://mail.example.com/campaign/',
+ *   rewriteUrl: (url) => `https://cdn.example.com/proxy?u=${encodeURIComponent(url)}`,
+ * });
+ * ```
+ */
+export function rewriteUrl(
+  url: string,
+  context: IUrlRewriteContext,
+  options: IUrlRewriteOptions,
+): string {
+  const trimmed = url.trim()
+  if (!trimmed || trimmed.startsWith('#')) return url
+
+  let resolved = trimmed
+  if (options.baseUrl) {
+    try {
+      resolved = new URL(trimmed, options.baseUrl).href
+    } catch {
+      // Invalid URLs are passed to the hook as written
+    }
+  }
+  return options.rewriteUrl ? options.rewriteUrl(resolved, context) : resolved
+}
+
+/**
+ * Rewrite the `url()` references and `@import`s of a stylesheet.
+ *
+ * URLs inside `@font-face` rules are of kind `font`, imported stylesheets of kind
+ * `stylesheet` and all others of kind `image`.
+ *
+ * @param cssText - The CSS source
+ * @param context - The element and attribute the CSS belongs to
+ * @param options - Base URL and hook
+ * @returns The CSS with rewritten URLs
+ *
+ * @example
+ * ```ts
+ * rewriteCssUrls('@font-face { src: url(a.woff2) }', { element: style, attribute: null }, {
+ *   baseUrl: 'https://mail.example.com/',
+ * });
+ * // '@font-face { src: url(https://mail.example.com/a.woff2) }'
+ * ```
+ */
+export function rewriteCssUrls(
+  cssText: string,
+  context: Omit<IUrlRewriteContext, 'kind'>,
+  options: IUrlRewriteOptions,
+): string {
+  if (!hasUrlRewriting(options)) return cssText
+  if (!cssText.includes('url(') && !/@import/i.test(cssText)) return cssText
+
+  // Source ranges of @font-face blocks and @import preludes
+  const fontFaces: [number, number][] = []
+  const imports: [number, number][] = []
+  const tokens = tokenizeCss(cssText)
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!
+    if (token.type !== 'at-keyword') continue
+    const name = token.value.toLowerCase()
+    if (name !== 'font-face' && name !== 'import') continue
+
+    let depth = 0
+    let j = i + 1
+    for (; j < tokens.length; j++) {
+      const type = tokens[j]!.type
+      if (name === 'import' && type === ';') break
+      if (type === '{') depth++
+      if (type === '}' && --depth <= 0) break
+    }
+    const end = tokens[Math.min(j, tokens.length - 1)]!.end
+    ;(name === 'import' ? imports : fontFaces).push([token.start, end])
+    i = j
+  }
+
+  const within = (ranges: [number, number][], offset: number) =>
+    ranges.some(([start, end]) => offset >= start && offset < end)
+  const kindAt = (offset: number): UrlKind =>
+    within(imports, offset) ? 'stylesheet' : within(fontFaces, offset) ? 'font' : 'image'
+
+  return cssText.replace(
+    /url\(\s*(['"]?)([^'")]*)\1\s*\)|(@import\s+)(['"])([^'"]*)\4/gi,
+    (_match, quote, url, importPrefix, importQuote, importUrl, offset: number) => {
+      if (importPrefix !== undefined) {
+        const rewritten = rewriteUrl(importUrl, { ...context, kind: 'stylesheet' }, options)
+        return `${importPrefix}${importQuote}${rewritten}${importQuote}`
+      }
+      return `url(${quote}${rewriteUrl(url, { ...context, kind: kindAt(offset) }, options)}${quote})`
+    },
+  )
+}
+
+/**
+ * Rewrite the URLs of a parsed tree in place.
+ *
+ * Meant for inert trees (a parsed fragment or DOMParser document), before they are
+ * inserted, so the original URLs are never requested.
+ *
+ * `<script src>` is left as written, since scripts are recreated before they run
+ * (see createExecutableScript); they resolve against the returned base URL.
+ *
+ * @param root - The parsed tree
+ * @param options - Base URL and hook
+ * @returns The base URL the content's URLs resolve against: a `<base href>` of the
+ *   content (resolved against `baseUrl`, or the page's base URL), else `baseUrl`
+ *
+ * @example
+ * ```ts
+ * const fragment = parseHtmlFragment(html);
+ * const baseUrl = rewriteTreeUrls(fragment, { baseUrl: 'https://mail.example.com/campaign/' });
+ * ```
+ */
+export function rewriteTreeUrls(root: ParentNode, options: IUrlRewriteOptions): string | undefined {
+  if (!hasUrlRewriting(options)) return options.baseUrl
+
+  // A <base href> of the content takes the place of baseUrl
+  const base = root.querySelector('base[href]')
+  if (base) {
+    try {
+      options = {
+        ...options,
+        baseUrl: new URL(base.getAttribute('href') || '', options.baseUrl ?? document.baseURI).href,
+      }
+    } catch {
+      // An invalid base is ignored, as browsers do
+    }
+    base.remove()
+  }
+
+  root.querySelectorAll('*').forEach((element) => {
+    const isScript = element.localName === 'script'
+    URL_ATTRIBUTES.forEach((attribute) => {
+      const value = element.getAttribute(attribute)
+      if (value === null || (isScript && attribute === 'src')) return
+      const kind = getUrlKind(element, attribute)
+      element.setAttribute(attribute, rewriteUrl(value, { element, attribute, kind }, options))
+    })
+
+    const srcset = element.getAttribute('srcset')
+    if (srcset !== null) {
+      const context = { element, attribute: 'srcset', kind: 'image' as const }
+      const candidates = srcset.split(',').map((candidate) => {
+        const [url = '', ...descriptors] = candidate.trim().split(/\s+/)
+        return [rewriteUrl(url, context, options), ...descriptors].join(' ')
+      })
+      element.setAttribute('srcset', candidates.join(', '))
+    }
+
+    const style = element.getAttribute('style')
+    if (style !== null) {
+      element.setAttribute('style', rewriteCssUrls(style, { element, attribute: 'style' }, options))
+    }
+    if (element.localName === 'style' && element.textContent) {
+      element.textContent = rewriteCssUrls(
+        element.textContent,
+        { element, attribute: null },
+        options,
+      )
+    }
+  })
+  return options.baseUrl
+}
+
+/**
+ * Determine what a URL attribute refers to.
+ */
+function getUrlKind(element: Element, attribute: string): UrlKind {
+  const tag = element.localName
+  if (attribute === 'poster') return 'image'
+  if (attribute === 'action' || attribute === 'formaction') return 'link'
+
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return 'link'
+    case 'link':
+      return /\bstylesheet\b/i.test(element.getAttribute('rel') || '') ? 'stylesheet' : 'other'
+    case 'img':
+    case 'input':
+    case 'image':
+    case 'use':
+      return 'image'
+    case 'video':
+    case 'audio':
+    case 'track':
+      return 'media'
+    case 'source':
+      return element.parentElement?.localName === 'picture' ? 'image' : 'media'
+    case 'iframe':
+    case 'frame':
+    case 'object':
+    case 'embed':
+      return 'frame'
+    case 'script':
+      return 'script'
+    default:
+      return 'other'
+  }
+}
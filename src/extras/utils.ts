@@ -8,6 +8,9 @@
  * @module utils
  */
 
+import { toTrustedHTML, writeSink } from './contentSecurity'
+import type { IContentSecurityOptions, IDirectRenderOptions, ITrustedHTML } from './types'
+
 /**
  * Generate a unique identifier string.
  *
@@ -54,6 +57,65 @@ export function normalizeHtml(raw: string): string {
   return raw.trim()
 }
 
+/**
+ * Parse an HTML string into an inert document fragment.
+ *
+ * Uses a `<template>` element so nothing in the markup is active while parsing:
+ * images don't start loading, event handler attributes can't fire and scripts
+ * don't run. This makes the result safe to inspect and sanitize before insertion.
+ *
+ * The fragment belongs to the template's inert document; its nodes become active
+ * once they are inserted into (and thereby adopted by) the page.
+ *
+ * @param html - The HTML string (or `TrustedHTML`) to parse
+ * @param options - The Trusted Types policy for the `innerHTML` sink, and the sanitizer a
+ *   named policy runs (see contentSecurity)
+ * @returns An inert document fragment
+ *
+ * @example
+ * ```ts
+ * const fragment = parseHtmlFragment('<p>Hello</p><img src="x" onerror="alert(1)">');
+ * // Nothing has run yet; the fragment can be inspected or sanitized safely
+ * ```
+ */
+export function parseHtmlFragment(
+  html: string | ITrustedHTML,
+  options: IContentSecurityOptions & Pick<IDirectRenderOptions, 'sanitize'> = {},
+): DocumentFragment {
+  const template = document.createElement('template')
+  writeSink('template.innerHTML', () => {
+    template.innerHTML = toTrustedHTML(
+      typeof html === 'string' ? normalizeHtml(html) : html,
+      options,
+    )
+  })
+  return template.content
+}
+
+/**
+ * Parse an HTML string into an inert document, keeping its structural tags
+ * (`<html>`, `<head>`, `<body>`).
+ *
+ * @param html - The HTML string (or `TrustedHTML`) to parse
+ * @param options - The Trusted Types policy for the parser, and the sanitizer a named
+ *   policy runs (see contentSecurity)
+ * @returns An inert document
+ *
+ * @example
+ * ```ts
+ * const doc = parseHtmlDocument('<html><head><style>p { color: red }</style></head></html>');
+ * ```
+ */
+export function parseHtmlDocument(
+  html: string | ITrustedHTML,
+  options: IContentSecurityOptions & Pick<IDirectRenderOptions, 'sanitize'> = {},
+): Document {
+  const input = toTrustedHTML(typeof html === 'string' ? normalizeHtml(html) : html, options)
+  return writeSink('DOMParser.parseFromString', () =>
+    new DOMParser().parseFromString(input, 'text/html'),
+  )
+}
+
 /**
  * Normalize an attribute value for safe use.
  *
@@ -78,6 +140,12 @@ export function normalizeAttr(val: string): string {
   return val.trim()
 }
 
+/**
+ * Prefix of the comments that hold the place of a script until it is recreated.
+ * Shared by the renderer that writes them and findPlaceholderNode, which looks them up.
+ */
+export const SCRIPT_PLACEHOLDER_PREFIX = 'SCRIPT_PLACEHOLDER:'
+
 /**
  * Find a placeholder comment node by ID.
  *
@@ -105,10 +173,62 @@ export function findPlaceholderNode(root: ParentNode, id: string): Comment | nul
   while ((node = walker.nextNode())) {
     const comment = node as Comment
     // Check if comment matches the placeholder format
-    if (comment.nodeValue?.includes(`SCRIPT_PLACEHOLDER:${id}`)) {
+    if (comment.nodeValue?.includes(`${SCRIPT_PLACEHOLDER_PREFIX}${id}`)) {
       return comment
     }
   }
 
   return null
 }
+
+/**
+ * Compute a short, non-cryptographic hash of a string (32-bit FNV-1a).
+ *
+ * Used to key caches by content; collisions are possible, so callers compare
+ * the original content before reusing a cached entry.
+ *
+ * @param value - The string to hash
+ * @returns The hash as a hexadecimal string
+ *
+ * @example
+ * ```ts
+ * const key = hashString(cssText); // e.g. "811c9dc5"
+ * ```
+ */
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Make the relative `url()` references of CSS absolute.
+ *
+ * CSS taken from a linked stylesheet is relative to that stylesheet, which no
+ * longer holds once it is moved into the main document or a constructed sheet.
+ *
+ * @param cssText - The CSS source
+ * @param baseUrl - URL of the stylesheet the CSS came from
+ * @returns The CSS with absolute URLs
+ *
+ * @example
+ * ```ts
+ * resolveCssUrls("src: url('../a.woff2')", 'https://cdn.example.com/css/x.css');
+ * // "src: url('https://cdn.example.com/a.woff2')"
+ * ```
+ */
+export function resolveCssUrls(cssText: string, baseUrl: string): string {
+  return cssText.replace(
+    /url\(\s*(['"]?)([^'")]*)\1\s*\)/g,
+    (match, quote: string, url: string) => {
+      try {
+        return `url(${quote}${new URL(url, baseUrl).href}${quote})`
+      } catch {
+        return match
+      }
+    },
+  )
+}
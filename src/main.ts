@@ -1,9 +1,11 @@
 /**
  * VueHTMLRenderer Library - Main Entry Point
  *
- * This library provides a Vue component for rendering HTML content with two modes:
+ * This library provides a Vue component (and composable) for rendering HTML content with
+ * three modes, built on a framework-agnostic renderer:
  * - Direct Mode: with script execution
  * - Shadow Mode: with style isolation
+ * - Iframe Mode: sandboxed, for untrusted content
  *
  * @example
  * ```typescript
@@ -34,6 +36,49 @@
 export { default } from './App.vue'
 export { default as App } from './App.vue'
 
+/**
+ * The `<html-renderer>` custom element, for pages without Vue.
+ *
+ * ```typescript
+ * import { registerHtmlRenderer } from 'vue-html-renderer';
+ * registerHtmlRenderer(); // <html-renderer src="/fragment.html"></html-renderer>
+ * ```
+ */
+export { HtmlRendererElement, registerHtmlRenderer } from './customElement'
+
+/**
+ * Rendering modes for the `mode` prop.
+ *
+ * ```typescript
+ * import { RenderMode } from 'vue-html-renderer';
+ * ```
+ */
+export { RenderMode } from './extras/types'
+
+/**
+ * The composable behind the component, and the framework-agnostic renderer it
+ * adapts. Use `vue-html-renderer/core` to import the renderer without Vue.
+ *
+ * ```typescript
+ * import { createHtmlRenderer, useHtmlRenderer } from 'vue-html-renderer';
+ * ```
+ */
+export { useHtmlRenderer } from './composables/useHtmlRenderer'
+export { createHtmlRenderer } from './renderers/htmlRenderer'
+export { renderServerHtml } from './renderers/serverRenderer'
+
+/**
+ * Error reported for content the page's Content Security Policy blocked (see the
+ * `nonce` and `trustedTypes` options).
+ */
+export { ContentSecurityPolicyError } from './extras/contentSecurity'
+
+/**
+ * Error reported for external scripts that were refused or failed to load; its `reason`
+ * tells them apart (see the `integrity` map of `scriptPolicy`).
+ */
+export { ScriptLoadError } from './extras/scriptPolicy'
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
@@ -46,4 +91,37 @@ export { default as App } from './App.vue'
  * import type { IHtmlRendererProps } from 'vue-html-renderer';
  * ```
  */
-export type { IHtmlRendererProps } from './extras/types'
+export type {
+  FontInjectionStrategy,
+  HoistableAtRule,
+  IAdoptedStyleSheetOptions,
+  IContentSecurityOptions,
+  IFontFaceExtractionOptions,
+  IHtmlRenderer,
+  IHtmlRendererComposable,
+  IHtmlRendererCoreOptions,
+  IHtmlRendererElementProps,
+  IHtmlRendererHooks,
+  IHtmlRendererOptions,
+  IHtmlRendererProps,
+  IIframeMessage,
+  IIframeOptions,
+  ISanitizeOptions,
+  IScriptLoadOptions,
+  IScriptMeta,
+  IScriptPolicy,
+  IServerRenderOptions,
+  IShadowRootInitOptions,
+  ITrustedHTML,
+  ITrustedTypePolicy,
+  IUrlRewriteContext,
+  IUrlRewriteOptions,
+  RenderStatus,
+  SanitizePreset,
+  ScriptBlockReason,
+  ScriptErrorReason,
+  ThemeParts,
+  ThemeVariables,
+  UpdateStrategy,
+  UrlKind,
+} from './extras/types'
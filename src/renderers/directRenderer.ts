@@ -10,6 +10,13 @@
  * - Supports async, defer, and sequential script execution
  * - Supports module scripts (type="module")
  * - Handles both inline and external scripts
+ * - Optional script policy (allowed sources, inline/module switches, approval callback)
+ * - Optional `morph` update strategy that patches the existing DOM in place
+ * - Optional URL resolution and rewriting (`baseUrl`, `rewriteUrl`; see urlRewriter)
+ * - Optional sandboxed globals for inline scripts (`sandboxScripts`; see scriptSandbox)
+ * - Optionally cancels the timers, listeners and observers scripts created on clear
+ *   (`trackSideEffects`; see sideEffects)
+ * - Hydration of server-rendered content, running only the scripts the server deferred
  *
  * Script Execution Semantics:
  * - Sequential scripts (no async/defer): Execute in document order, each waits for previous
@@ -20,9 +27,48 @@
  * @module directRenderer
  */
 
-import { nextTick } from 'vue'
-import { findPlaceholderNode, normalizeAttr, normalizeHtml, uid } from '../extras/utils'
-import type { IScriptMeta } from '../extras/types'
+import {
+  findPlaceholderNode,
+  normalizeAttr,
+  parseHtmlFragment,
+  SCRIPT_PLACEHOLDER_PREFIX,
+  uid,
+} from '../extras/utils'
+import { morphChildren } from '../extras/morph'
+import { sanitizeTree } from '../extras/sanitizer'
+import { applyScriptIntegrity, evaluateScriptPolicy, ScriptLoadError } from '../extras/scriptPolicy'
+import { rewriteTreeUrls, rewriteUrl } from '../extras/urlRewriter'
+import {
+  applyStyleNonce,
+  createViolationError,
+  toTrustedScript,
+  toTrustedScriptURL,
+  writeSink,
+} from '../extras/contentSecurity'
+import { restoreDeferredScripts } from './serverRenderer'
+import { disposeScriptSandbox, findTopLevelFunctions, getScriptSandbox } from './scriptSandbox'
+import {
+  disposeSideEffects,
+  runWithSideEffectTracking,
+  trackScriptSideEffects,
+} from './sideEffects'
+import type {
+  IContentSecurityOptions,
+  IDirectRenderOptions,
+  IScriptExecutionOptions,
+  IScriptLoadOptions,
+  IScriptMeta,
+  ITrustedHTML,
+  IUrlRewriteOptions,
+  ScriptBlockReason,
+  ScriptErrorReason,
+} from '../extras/types'
+
+/**
+ * Scripts created by this renderer. Used by the morph strategy to tell scripts
+ * that already ran apart from newly inserted (inert) ones.
+ */
+const executedScripts = new WeakSet<HTMLScriptElement>()
 
 /**
  * Extract all <script> elements from a container and replace each with a
@@ -34,20 +80,26 @@ import type { IScriptMeta } from '../extras/types'
  * The placeholder comments allow us to re-insert scripts at their exact
  * original positions in the DOM tree.
  *
- * @param container - The container element containing the parsed HTML
+ * @param container - The container (element or fragment) holding the parsed HTML
+ * @param shouldExtract - Optional filter; scripts it rejects are left untouched
  * @returns Array of script metadata objects
  *
  * @example
  * ```ts
- * const temp = document.createElement('div');
- * temp.innerHTML = htmlString;
- * const scripts = extractScriptsWithPlaceholders(temp);
+ * const fragment = parseHtmlFragment(htmlString);
+ * const scripts = extractScriptsWithPlaceholders(fragment);
  * ```
  */
-export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptMeta[] {
+export function extractScriptsWithPlaceholders(
+  container: ParentNode,
+  shouldExtract?: (script: HTMLScriptElement) => boolean,
+): IScriptMeta[] {
   const metas: IScriptMeta[] = []
   // Query scripts in tree order so placeholders keep the original positions
-  const scripts = Array.from(container.querySelectorAll('script'))
+  let scripts = Array.from(container.querySelectorAll('script'))
+  if (shouldExtract) {
+    scripts = scripts.filter(shouldExtract)
+  }
 
   for (const oldScript of scripts) {
     const id = uid() // unique id used to locate placeholder later within the host
@@ -69,7 +121,7 @@ export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptM
 
     // Replace the original <script> with a comment placeholder so that later
     // we can swap it for a freshly-created <script> that the browser will execute.
-    const placeholder = document.createComment(`DYNAMIC_HTML_SCRIPT:${id}`)
+    const placeholder = document.createComment(`${SCRIPT_PLACEHOLDER_PREFIX}${id}`)
     oldScript.replaceWith(placeholder)
 
     metas.push({
@@ -86,17 +138,37 @@ export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptM
   return metas
 }
 
+/**
+ * Extract scripts that were not created by this renderer.
+ *
+ * After morphing, scripts that were kept from a previous render have already run,
+ * while newly inserted ones are inert copies. Only the latter are extracted.
+ *
+ * @param root - The root node to search
+ * @returns Array of script metadata objects for the scripts that still need to run
+ */
+export function extractPendingScripts(root: ParentNode): IScriptMeta[] {
+  return extractScriptsWithPlaceholders(root, (script) => !executedScripts.has(script))
+}
+
 /**
  * Create a fresh executable <script> element from IScriptMeta.
  *
  * This function:
  * - Forwards non-special attributes exactly as provided
  * - Applies special flags (async/defer/type/src) explicitly for correct semantics
- * - Normalizes src attribute to handle quoting/escaping issues
+ * - Normalizes src attribute to handle quoting/escaping issues, then resolves it
+ *   against `baseUrl` and passes it through `rewriteUrl`
  * - Sets textContent for inline scripts
+ * - Sets the page's `nonce`, and passes `src` and the code through the Trusted Types policy
+ *
+ * The src as written is kept on the element, so the morph strategy compares
+ * scripts by their original source.
  *
  * @param meta - Script metadata object
+ * @param options - Base URL and hook applied to `src`, and the CSP options
  * @returns A fresh HTMLScriptElement ready to be inserted into the DOM
+ * @throws ContentSecurityPolicyError if Trusted Types rejected the `src` or code
  *
  * @example
  * ```ts
@@ -104,7 +176,10 @@ export function extractScriptsWithPlaceholders(container: HTMLElement): IScriptM
  * document.body.appendChild(script);
  * ```
  */
-export function createExecutableScript(meta: IScriptMeta): HTMLScriptElement {
+export function createExecutableScript(
+  meta: IScriptMeta,
+  options: IUrlRewriteOptions & IContentSecurityOptions = {},
+): HTMLScriptElement {
   const s = document.createElement('script')
 
   // Forward non-special attributes exactly as provided
@@ -117,37 +192,415 @@ export function createExecutableScript(meta: IScriptMeta): HTMLScriptElement {
   if (meta.isModule) s.type = 'module'
   if (meta.isAsync) s.async = true
   if (meta.isDefer) s.defer = true
+  // Replaces a nonce of the content, which can't match the page's
+  if (options.nonce) s.setAttribute('nonce', options.nonce)
 
   if (meta.hasSrc && meta.attrs['src']) {
-    s.src = normalizeAttr(meta.attrs['src'])
+    const src = normalizeAttr(meta.attrs['src'])
+    const url = rewriteUrl(src, { element: s, attribute: 'src', kind: 'script' }, options)
+    writeSink('script src', () => {
+      s.src = toTrustedScriptURL(url, options)
+    })
+    ;(s as any).__html_renderer_src = src
   } else if (meta.code != null) {
-    s.textContent = meta.code
+    setScriptText(s, meta.code, options)
   }
 
   return s
 }
 
+/**
+ * Set the code of a script, through the Trusted Types policy.
+ */
+function setScriptText(
+  script: HTMLScriptElement,
+  code: string,
+  options: IContentSecurityOptions,
+): void {
+  writeSink('script text', () => {
+    script.textContent = toTrustedScript(code, options)
+  })
+}
+
+/**
+ * Registry holding the shadow roots (or sandboxes) that scoped inline scripts look up.
+ */
+const SCRIPT_SCOPES_KEY = '__htmlRendererScriptScopes__'
+
+/**
+ * Get the script scope registry. It lives on the document, which scripts share with
+ * this module even where their global object differs from its `globalThis` (jsdom).
+ */
+function getScriptScopes(): Map<string, unknown> {
+  return ((document as any)[SCRIPT_SCOPES_KEY] ??= new Map())
+}
+
+/**
+ * Bind a `root` constant to an inline script that runs inside a shadow tree.
+ *
+ * The script's code is wrapped in a block that reads its shadow root from a
+ * registry; the original code is kept on the element so the morph strategy can
+ * still recognize unchanged scripts.
+ *
+ * @param script - The freshly created script element
+ * @param meta - Script metadata object
+ * @param shadowRoot - The shadow root the script is inserted into
+ * @param options - The `trustedTypes` option, for the wrapped code
+ * @returns Function that removes the registry entry once the script has run
+ */
+function bindShadowScope(
+  script: HTMLScriptElement,
+  meta: IScriptMeta,
+  shadowRoot: ShadowRoot,
+  options: IContentSecurityOptions,
+): () => void {
+  setScriptText(
+    script,
+    `{ const root = document.${SCRIPT_SCOPES_KEY}.get(${JSON.stringify(meta.id)});\n` +
+      `${meta.code}\n}`,
+    options,
+  )
+  ;(script as any).__html_renderer_code = meta.code
+
+  const registry = getScriptScopes()
+  registry.set(meta.id, shadowRoot)
+
+  return () => registry.delete(meta.id)
+}
+
+/**
+ * Run an inline script in the sandbox of its render target (see scriptSandbox).
+ *
+ * The code is wrapped in a function whose `window`, `self`, `globalThis`, `document`
+ * and `this` are the sandbox's proxies, and in a `with` block over the sandboxed window,
+ * so bare globals (`config = ...`, `onresize = ...`) resolve through it as well. A
+ * `root` parameter is bound to the render target, as for shadow-scoped scripts.
+ *
+ * Function declarations would be local to the wrapper, so the top-level ones are copied
+ * onto the sandboxed window when the script starts (they are hoisted), on the first line
+ * so line numbers in errors stay those of the content.
+ *
+ * @param script - The freshly created script element
+ * @param meta - Script metadata object
+ * @param root - The render target the script is inserted into
+ * @param options - The `trustedTypes` option, for the wrapped code
+ * @returns Function that removes the registry entry once the script has run
+ */
+function bindSandboxScope(
+  script: HTMLScriptElement,
+  meta: IScriptMeta,
+  root: ParentNode,
+  options: IContentSecurityOptions,
+): () => void {
+  const declarations = findTopLevelFunctions(meta.code ?? '')
+    .map((name) => `typeof ${name} === 'function' && (window.${name} = ${name}); `)
+    .join('')
+  setScriptText(
+    script,
+    `(function (sandbox) { (function (window, self, globalThis, document, root) { with (window) {\n` +
+      `${declarations}${meta.code}\n` +
+      `} }).call(sandbox.window, sandbox.window, sandbox.window, sandbox.window, sandbox.document, ` +
+      `sandbox.root) })(document.${SCRIPT_SCOPES_KEY}.get(${JSON.stringify(meta.id)}))`,
+    options,
+  )
+  ;(script as any).__html_renderer_code = meta.code
+
+  const registry = getScriptScopes()
+  registry.set(meta.id, getScriptSandbox(root))
+
+  return () => registry.delete(meta.id)
+}
+
+/**
+ * Tell why an external script failed to load. The error event doesn't say, but a script
+ * with `integrity` whose response arrived (according to its resource timing entry, where
+ * the browser reports the status) failed the integrity check.
+ */
+function getLoadFailureReason(script: HTMLScriptElement): ScriptErrorReason {
+  if (!script.hasAttribute('integrity') || typeof performance?.getEntriesByName !== 'function')
+    return 'network'
+  const entries = performance.getEntriesByName(script.src, 'resource')
+  const status = (entries[entries.length - 1] as PerformanceResourceTiming | undefined)
+    ?.responseStatus
+  return status !== undefined && status >= 200 && status < 300 ? 'integrity' : 'network'
+}
+
+/**
+ * Describe why an external script failed to load.
+ */
+function createLoadError(script: HTMLScriptElement, src: string, event: Event): ScriptLoadError {
+  const reason = getLoadFailureReason(script)
+  return new ScriptLoadError(
+    reason === 'integrity'
+      ? `Script ${src} doesn't match its integrity hash`
+      : `Error loading script ${src}`,
+    reason,
+    src,
+    { cause: event },
+  )
+}
+
+/**
+ * The load options of one script: the `scriptLoading` option, overridden by the
+ * script's `data-timeout` and `data-retries` attributes.
+ */
+function getScriptLoadOptions(
+  meta: IScriptMeta,
+  options: IScriptLoadOptions = {},
+): Required<IScriptLoadOptions> {
+  const attr = (name: string) => {
+    const value = Number(meta.attrs[name] ?? NaN)
+    return Number.isFinite(value) && value >= 0 ? value : undefined
+  }
+  return {
+    timeout: attr('data-timeout') ?? options.timeout ?? 0,
+    retries: Math.floor(attr('data-retries') ?? options.retries ?? 0),
+    retryDelay: options.retryDelay ?? 500,
+  }
+}
+
+/**
+ * Insert an external script in place of a node and wait until it has loaded, failed or
+ * timed out.
+ *
+ * @param root - The render target, for side-effect tracking; undefined to run untracked
+ * @param node - The placeholder, or the script of the previous attempt
+ * @param script - The script to insert
+ * @param src - The URL as written in the content, for the error
+ * @param timeout - Milliseconds to wait; 0 waits indefinitely
+ * @returns Promise for the error of the attempt; undefined once the script has loaded
+ */
+function loadScriptAttempt(
+  root: ParentNode | undefined,
+  node: ChildNode,
+  script: HTMLScriptElement,
+  src: string,
+  timeout: number,
+): Promise<ScriptLoadError | undefined> {
+  return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let settled = false
+    const settle = (error?: ScriptLoadError) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      resolve(error)
+    }
+
+    script.addEventListener('load', () => settle(), { once: true })
+    script.addEventListener('error', (e) => settle(createLoadError(script, src, e)), {
+      once: true,
+    })
+    if (timeout > 0) {
+      timer = setTimeout(
+        () =>
+          settle(new ScriptLoadError(`Script ${src} timed out after ${timeout}ms`, 'timeout', src)),
+        timeout,
+      )
+    }
+    if (root) trackScriptSideEffects(root, script)
+    node.replaceWith(script)
+  })
+}
+
+/**
+ * Run the `data-fallback-src` of a script through the script policy, as a script of its
+ * own: its URL is resolved against `baseUrl` (for the allowed sources and the integrity
+ * map alike), `beforeScriptExecute` may veto or rewrite it, and it gets its own
+ * integrity hash.
+ *
+ * @param meta - Metadata of the script that failed
+ * @param fallback - The fallback URL as written in the content
+ * @param options - Script policy and base URL
+ * @returns The fallback's metadata, and the reason the policy refused it (or null)
+ * @throws ScriptLoadError with reason `blocked` if the fallback isn't in the integrity map
+ */
+async function evaluateFallback(
+  meta: IScriptMeta,
+  fallback: string,
+  options: IScriptExecutionOptions,
+): Promise<{ meta: IScriptMeta; reason: ScriptBlockReason | null }> {
+  let src = normalizeAttr(fallback)
+  try {
+    src = new URL(src, options.baseUrl ?? document.baseURI).href
+  } catch {
+    // Invalid URLs are checked as written
+  }
+  const fallbackMeta: IScriptMeta = { ...meta, attrs: { ...meta.attrs, src }, hasSrc: true }
+
+  const reason = await evaluateScriptPolicy(fallbackMeta, options.scriptPolicy, options.baseUrl)
+  if (!reason) {
+    applyScriptIntegrity(fallbackMeta, options.scriptPolicy, options.baseUrl)
+  }
+  return { meta: fallbackMeta, reason }
+}
+
+/**
+ * Create the script of a retry, or of the fallback.
+ *
+ * @param meta - Metadata of the script as written in the content
+ * @param source - Metadata of the attempt (the script itself, or its fallback)
+ * @param options - URL rewrite and CSP options
+ */
+function createAttemptScript(
+  meta: IScriptMeta,
+  source: IScriptMeta,
+  options: IScriptExecutionOptions,
+): HTMLScriptElement {
+  const script = createExecutableScript(source, options)
+  // Morphing recognizes the script by the src of the content
+  ;(script as any).__html_renderer_src = normalizeAttr(meta.attrs['src']!)
+  return script
+}
+
+/**
+ * Keep a script that timed out from running if it arrives after all, e.g. next to its
+ * retry: a script moved to another document once it was prepared never executes. A
+ * comment takes its place.
+ *
+ * @param script - The script that timed out
+ * @returns The node in the script's place (not connected if the script wasn't)
+ */
+function neutralizeScript(script: HTMLScriptElement): ChildNode {
+  const marker = document.createComment('SCRIPT_TIMED_OUT')
+  script.replaceWith(marker)
+  document.implementation.createHTMLDocument('').adoptNode(script)
+  return marker
+}
+
+/**
+ * Load an external script with the timeout, retries and fallback of its load options,
+ * and report the outcome: `onScriptLoaded` once an attempt has loaded, otherwise
+ * `onScriptError` with the error of the last attempt (or a console error without the hook).
+ *
+ * Every attempt replaces the script of the previous one; a script that timed out is
+ * kept from running later (see neutralizeScript). Retries wait `retryDelay`, doubled for
+ * every further retry; the fallback is tried right after the last retry, if the script
+ * policy allows it (otherwise it is reported through `onScriptBlocked`). Attempts stop
+ * once the content has been removed.
+ *
+ * @param root - The render target
+ * @param placeholder - The script's placeholder
+ * @param script - The script of the first attempt
+ * @param meta - Script metadata object
+ * @param options - Load options, script policy and hooks
+ */
+async function loadExternalScript(
+  root: ParentNode,
+  placeholder: ChildNode,
+  script: HTMLScriptElement,
+  meta: IScriptMeta,
+  options: IScriptExecutionOptions,
+): Promise<void> {
+  const { timeout, retries, retryDelay } = getScriptLoadOptions(meta, options.scriptLoading)
+  const src = meta.attrs['src']!
+  const fallback = meta.attrs['data-fallback-src']
+
+  const reportError = (error: unknown) => {
+    if (options.onScriptError) {
+      options.onScriptError(meta, error)
+    } else {
+      console.error(error instanceof Error ? error.message : `Error loading script ${src}`, error)
+    }
+  }
+
+  let node: ChildNode = placeholder
+  let error: ScriptLoadError | undefined
+  let source = meta
+  for (let round = 0; round < (fallback ? 2 : 1); round++) {
+    if (round > 0) {
+      let reason: ScriptBlockReason | null
+      try {
+        ;({ meta: source, reason } = await evaluateFallback(meta, fallback!, options))
+      } catch (e) {
+        reportError(e)
+        return
+      }
+      if (reason) {
+        options.onScriptBlocked?.(source, reason)
+        break
+      }
+    }
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, retryDelay * 2 ** (attempt - 1)))
+      }
+      // Cleared or re-rendered meanwhile
+      if (!node.isConnected) return
+
+      let current = script
+      if (node !== placeholder) {
+        try {
+          current = createAttemptScript(meta, source, options)
+        } catch (e) {
+          reportError(e)
+          return
+        }
+        executedScripts.add(current)
+      }
+
+      const tracked = options.trackSideEffects ? root : undefined
+      error = await loadScriptAttempt(tracked, node, current, source.attrs['src']!, timeout)
+      if (!error) {
+        options.onScriptLoaded?.(meta)
+        return
+      }
+      node = error.reason === 'timeout' ? neutralizeScript(current) : current
+    }
+  }
+  reportError(error)
+}
+
 /**
  * Insert a freshly-created <script> at its placeholder location and wait for completion.
  *
  * For external scripts (with src):
- * - Resolves on load event
- * - Resolves on error event (logs error but doesn't throw)
+ * - Gets its hash from the policy's `integrity` map; unlisted scripts are skipped
+ * - Resolves on load event (reported through `onScriptLoaded`)
+ * - Retries failed or timed-out loads and falls back to `data-fallback-src`, as
+ *   configured by `scriptLoading` (see loadExternalScript)
+ * - Resolves once every attempt failed (reported through `onScriptError` as a
+ *   ScriptLoadError with reason `integrity`, `network` or `timeout`, or logged when no
+ *   hook is given; never throws)
  *
  * For inline scripts:
  * - Browser executes synchronously when inserted
+ * - Uncaught errors thrown during that execution are reported through `onScriptError`
  * - We resolve on next microtask to model completion without blocking
  *
+ * With `trackSideEffects`, classic scripts run in the side-effect tracking context of
+ * the root, so what they start is cancelled when the root is cleared (see sideEffects).
+ *
+ * When the root is a ShadowRoot, inline scripts are wrapped in a block that binds
+ * a `root` constant to it, so they can query their own elements with
+ * `root.querySelector(...)` (the global `document` can't see into shadow trees).
+ *
+ * With `sandboxScripts`, inline classic scripts run in the sandbox of the root instead
+ * (see bindSandboxScope); module scripts can't be wrapped in a `with` block and run as usual.
+ *
+ * A script whose `src` or code Trusted Types rejected is skipped and reported through
+ * `onScriptError` with a ContentSecurityPolicyError, as is an inline script the page's
+ * CSP blocked (once the browser reports the violation).
+ *
  * @param root - The root element containing the placeholder
  * @param meta - Script metadata object
+ * @param hooks - Optional callbacks for load and error reporting, the URL rewrite
+ *   options for `src` and the CSP options
  * @returns Promise that resolves when script has finished executing or loading
  *
  * @example
  * ```ts
- * await insertScriptAtPlaceholder(document.body, scriptMeta);
+ * await insertScriptAtPlaceholder(document.body, scriptMeta, {
+ *   onScriptError: (meta, error) => reportError(meta.attrs.src, error),
+ * });
  * ```
  */
-export function insertScriptAtPlaceholder(root: ParentNode, meta: IScriptMeta): Promise<void> {
+export function insertScriptAtPlaceholder(
+  root: ParentNode,
+  meta: IScriptMeta,
+  hooks: IScriptExecutionOptions = {},
+): Promise<void> {
   return new Promise<void>((resolve) => {
     const placeholder = findPlaceholderNode(root, meta.id)
     if (!placeholder) {
@@ -156,71 +609,139 @@ export function insertScriptAtPlaceholder(root: ParentNode, meta: IScriptMeta):
       return
     }
 
-    const s = createExecutableScript(meta)
+    const reportError = (error: unknown) => {
+      if (hooks.onScriptError) {
+        hooks.onScriptError(meta, error)
+      } else {
+        console.error(`Error running script ${meta.attrs['src'] ?? meta.id}`, error)
+      }
+    }
+
+    let s: HTMLScriptElement
+    let releaseScope: (() => void) | undefined
+    try {
+      applyScriptIntegrity(meta, hooks.scriptPolicy, hooks.baseUrl)
+      s = createExecutableScript(meta, hooks)
+      if (hooks.sandboxScripts && !meta.hasSrc && !meta.isModule && meta.code != null) {
+        releaseScope = bindSandboxScope(s, meta, root, hooks)
+      } else if (root instanceof ShadowRoot && !meta.hasSrc && meta.code != null) {
+        releaseScope = bindShadowScope(s, meta, root, hooks)
+      }
+    } catch (e) {
+      placeholder.remove()
+      reportError(e)
+      resolve()
+      return
+    }
+    executedScripts.add(s)
 
     if (meta.hasSrc && meta.attrs['src']) {
-      // External: wire both load and error so we always resolve and never leak a pending promise
-      s.addEventListener('load', () => resolve(), { once: true })
-      s.addEventListener(
-        'error',
-        (e) => {
-          console.error(`Error loading script ${meta.attrs['src']}`, e)
-          resolve()
-        },
-        { once: true },
-      )
-      placeholder.replaceWith(s)
+      // External: every attempt settles on load, error or timeout, so this never stays pending
+      loadExternalScript(root, placeholder, s, meta, hooks).then(resolve)
     } else {
       // Inline: replacing the node triggers synchronous execution in real browsers; we model
       // completion at microtask boundary to preserve order while allowing the DOM to update.
-      placeholder.replaceWith(s)
+      // Uncaught errors of the script are dispatched on window while it executes.
+      let executionError: unknown
+      const captureError = (e: ErrorEvent) => {
+        executionError ??= e.error ?? e
+      }
+      // Reported asynchronously; a blocked script simply doesn't run
+      s.addEventListener(
+        'securitypolicyviolation',
+        (e) => reportError(createViolationError(e as SecurityPolicyViolationEvent)),
+        { once: true },
+      )
+      window.addEventListener('error', captureError)
+      try {
+        if (hooks.trackSideEffects) {
+          runWithSideEffectTracking(root, () => placeholder.replaceWith(s))
+        } else {
+          placeholder.replaceWith(s)
+        }
+      } finally {
+        window.removeEventListener('error', captureError)
+      }
+      if (executionError !== undefined) {
+        hooks.onScriptError?.(meta, executionError)
+      } else if (!meta.isModule) {
+        // Module scripts execute later; their completion isn't observable here
+        hooks.onScriptLoaded?.(meta)
+      }
+      if (releaseScope && meta.isModule) {
+        // Module scripts run later; keep the scope until they have executed
+        s.addEventListener('load', releaseScope, { once: true })
+        s.addEventListener('error', releaseScope, { once: true })
+      } else {
+        releaseScope?.()
+      }
       queueMicrotask(() => resolve())
     }
   })
 }
 
 /**
- * Render HTML content directly into a target element with full script execution.
+ * Check a script against the policy and, if allowed, insert it at its placeholder.
  *
- * This function:
- * 1. Clears the target element
- * 2. Parses HTML and extracts scripts (replacing with placeholders)
- * 3. Appends all content (including placeholders) to the target
- * 4. Executes scripts in proper order:
- *    - Sequential scripts: Execute in order, each waits for previous
- *    - Async scripts: Execute independently without blocking
- *    - Defer scripts: Execute after Vue nextTick, in order
+ * Blocked scripts have their placeholder removed and are reported through
+ * `onScriptBlocked` instead of being dropped silently. If the policy itself fails
+ * (e.g. `beforeScriptExecute` throws), the script is skipped and the failure is
+ * reported through `onScriptError`.
  *
- * Script execution mirrors browser behavior to ensure proper timing and ordering.
+ * @param root - The root node containing the placeholder
+ * @param meta - Script metadata object
+ * @param options - Script policy and hooks
+ * @returns Promise that resolves when the script has run or was blocked
+ */
+async function runScript(
+  root: ParentNode,
+  meta: IScriptMeta,
+  options: IScriptExecutionOptions,
+): Promise<void> {
+  let reason: ScriptBlockReason | null
+  try {
+    reason = await evaluateScriptPolicy(meta, options.scriptPolicy, options.baseUrl)
+  } catch (e) {
+    findPlaceholderNode(root, meta.id)?.remove()
+    options.onScriptError?.(meta, e)
+    return
+  }
+  if (reason) {
+    findPlaceholderNode(root, meta.id)?.remove()
+    options.onScriptBlocked?.(meta, reason)
+    return
+  }
+  await insertScriptAtPlaceholder(root, meta, options)
+}
+
+/**
+ * Execute extracted scripts at their placeholders with browser-like ordering.
  *
- * @param target - The target element to render into
- * @param html - The HTML string to render
+ * - Sequential scripts: Execute in order, each waits for previous
+ * - Async scripts: Execute independently without blocking
+ * - Defer scripts: Execute after pending microtasks (e.g. framework DOM updates), in order
+ *
+ * Every script is checked against the script policy (if any) right before it runs.
+ *
+ * @param root - The root node containing the placeholders
+ * @param scriptMetas - Script metadata returned by extractScriptsWithPlaceholders
+ * @param options - Script policy and hooks
  * @returns Promise that resolves when all sequential and defer scripts have completed
  *
  * @example
  * ```ts
- * const container = document.getElementById('content');
- * await renderDirectly(container, htmlString);
+ * const metas = extractScriptsWithPlaceholders(container);
+ * await executeScripts(container, metas, {
+ *   scriptPolicy: { allowInline: false },
+ *   onScriptBlocked: (meta, reason) => console.warn(reason, meta),
+ * });
  * ```
  */
-export async function renderDirectly(target: HTMLElement, html: string): Promise<void> {
-  // Clear existing content
-  while (target.firstChild) {
-    target.removeChild(target.firstChild)
-  }
-
-  const temp = document.createElement('div')
-  temp.innerHTML = normalizeHtml(html)
-
-  const scriptMetas = extractScriptsWithPlaceholders(temp)
-
-  // Append all nodes (including placeholders) at once to reduce layout thrashing
-  const frag = document.createDocumentFragment()
-  while (temp.firstChild) {
-    frag.appendChild(temp.firstChild)
-  }
-  target.appendChild(frag)
-
+export async function executeScripts(
+  root: ParentNode,
+  scriptMetas: IScriptMeta[],
+  options: IScriptExecutionOptions = {},
+): Promise<void> {
   // Group scripts for the correct execution order
   const sequential: IScriptMeta[] = []
   const asyncScripts: IScriptMeta[] = []
@@ -238,26 +759,127 @@ export async function renderDirectly(target: HTMLElement, html: string): Promise
 
   // 1) Run sequential scripts in-order; each waits for previous to finish
   for (const m of sequential) {
-    await insertScriptAtPlaceholder(target, m)
+    await runScript(root, m, options)
   }
 
   // 2) Fire async scripts without awaiting their completion
   for (const m of asyncScripts) {
-    void insertScriptAtPlaceholder(target, m)
+    void runScript(root, m, options)
   }
 
-  // 3) After Vue DOM flush, run defer scripts in-order
-  await nextTick()
+  // 3) Once queued microtasks (e.g. a framework's DOM flush) have run, run defer scripts in-order
+  await Promise.resolve()
   for (const m of deferScripts) {
-    await insertScriptAtPlaceholder(target, m)
+    await runScript(root, m, options)
   }
 }
 
+/**
+ * Render HTML content directly into a target element with full script execution.
+ *
+ * This function:
+ * 1. Clears the target element (or morphs it, see below)
+ * 2. Parses HTML into an inert fragment, sanitizes it (if enabled) and rewrites its
+ *    URLs (with `baseUrl` or `rewriteUrl`)
+ * 3. Extracts scripts (replacing with placeholders)
+ * 4. Appends all content (including placeholders) to the target
+ * 5. Executes scripts in proper order (see executeScripts)
+ *
+ * With `updateStrategy: 'morph'` the existing content of the target is patched in
+ * place instead of being replaced. Scripts that are unchanged since the previous
+ * render are kept and not executed again; new or changed scripts are executed.
+ *
+ * Script execution mirrors browser behavior to ensure proper timing and ordering.
+ *
+ * @param target - The target element to render into
+ * @param html - The HTML string (or TrustedHTML) to render
+ * @param options - Render options (update strategy, sanitization, URL rewriting, CSP,
+ *   script policy and hooks)
+ * @returns Promise that resolves when all sequential and defer scripts have completed
+ * @throws ContentSecurityPolicyError if Trusted Types rejected the HTML
+ *
+ * @example
+ * ```ts
+ * const container = document.getElementById('content');
+ * await renderDirectly(container, htmlString);
+ *
+ * // Later: patch the existing DOM instead of replacing it
+ * await renderDirectly(container, nextHtmlString, { updateStrategy: 'morph' });
+ * ```
+ */
+export async function renderDirectly(
+  target: HTMLElement,
+  html: string | ITrustedHTML,
+  options: IDirectRenderOptions = {},
+): Promise<void> {
+  const { updateStrategy = 'replace', sanitize = false } = options
+
+  // Parse inertly so nothing runs before sanitization and script extraction
+  const fragment = parseHtmlFragment(html, options)
+  if (sanitize) {
+    sanitizeTree(fragment, sanitize)
+  }
+  // Scripts load from the content's <base href>, if it has one
+  const scriptOptions = { ...options, baseUrl: rewriteTreeUrls(fragment, options) }
+  applyStyleNonce(fragment, options.nonce)
+
+  if (updateStrategy === 'morph') {
+    // Patch the live tree; new scripts arrive inert and are extracted afterwards
+    morphChildren(target, fragment)
+    const scriptMetas = extractPendingScripts(target)
+    await executeScripts(target, scriptMetas, scriptOptions)
+    return
+  }
+
+  // Clear existing content
+  while (target.firstChild) {
+    target.removeChild(target.firstChild)
+  }
+
+  const scriptMetas = extractScriptsWithPlaceholders(fragment)
+
+  // Append all nodes (including placeholders) at once to reduce layout thrashing
+  target.appendChild(fragment)
+
+  await executeScripts(target, scriptMetas, scriptOptions)
+}
+
+/**
+ * Hydrate direct-mode content that was rendered on the server (see renderServerHtml).
+ *
+ * The server-rendered DOM is kept as it is; only the scripts the server deferred
+ * are recreated and executed, with the same ordering and script policy as
+ * renderDirectly. Scripts the server left alone (e.g. JSON data) are not touched.
+ *
+ * @param target - The host element holding the server-rendered content
+ * @param options - Script policy and hooks
+ * @returns Promise that resolves when all sequential and defer scripts have completed
+ *
+ * @example
+ * ```ts
+ * const marker = findServerMarker(container, htmlString, RenderMode.Direct);
+ * if (marker) {
+ *   marker.remove();
+ *   await hydrateDirectly(container);
+ * }
+ * ```
+ */
+export async function hydrateDirectly(
+  target: HTMLElement,
+  options: IScriptExecutionOptions = {},
+): Promise<void> {
+  const deferred = new Set(restoreDeferredScripts(target, options))
+  const scriptMetas = extractScriptsWithPlaceholders(target, (script) => deferred.has(script))
+  await executeScripts(target, scriptMetas, options)
+}
+
 /**
  * Clear all children from a target element.
  *
  * This is a utility function for cleanup operations. It uses a while loop
- * with removeChild for deterministic cleanup.
+ * with removeChild for deterministic cleanup. The timers, listeners and
+ * observers its scripts created are cancelled first (after their
+ * `html-renderer:unmount` listeners ran), and its script sandbox is disposed.
  *
  * @param target - The element to clear
  *
@@ -267,7 +889,9 @@ export async function renderDirectly(target: HTMLElement, html: string): Promise
  * ```
  */
 export function clearElement(target: HTMLElement): void {
+  disposeSideEffects(target)
   while (target.firstChild) {
     target.removeChild(target.firstChild)
   }
+  disposeScriptSandbox(target)
 }
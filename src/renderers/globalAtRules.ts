@@ -0,0 +1,425 @@
+/**
+ * Global At-Rule Hoisting for the Shadow DOM Renderer
+ *
+ * Some at-rules only work, or only work predictably, at document level: fonts
+ * declared inside a shadow tree don't load reliably, and `@property`,
+ * `@counter-style` and `@font-feature-values` are ignored or scoped
+ * inconsistently there. The shadow renderer hoists them into the main document;
+ * this module owns that hoisting.
+ *
+ * Key Features:
+ * - Finds the opted-in at-rules (see HoistableAtRule) in `<style>` elements and
+ *   linked stylesheets with a CSS tokenizer, so braces in comments and strings are ignored
+ * - Injects @font-face rules as CSS text (`style`) or through the CSS Font Loading
+ *   API (`fontface`); other at-rules are always injected as CSS text
+ * - Reference-counts rules across renderer instances ("owners"), so a rule is only
+ *   removed once no owner uses it anymore
+ * - Reports when the fonts of a render have finished loading
+ *
+ * @module globalAtRules
+ */
+
+import { extractAtRules, parseDeclarations } from '../extras/cssTokenizer'
+import { resolveCssUrls } from '../extras/utils'
+import { rewriteCssUrls } from '../extras/urlRewriter'
+import type {
+  FontInjectionStrategy,
+  HoistableAtRule,
+  IAtRuleHoistingOptions,
+  IAtRuleHoistingResult,
+} from '../extras/types'
+import { fetchStylesheetText } from './styleSheets'
+
+/**
+ * Rules registered by one owner (usually a shadow root) in one style element.
+ */
+interface IAtRuleRegistration {
+  rules: string[]
+  preventDuplicates: boolean
+  injection: FontInjectionStrategy
+  nonce?: string
+}
+
+/**
+ * Registered at-rules, per injected style element ID and owner.
+ *
+ * A rule stays in the document as long as at least one owner has it registered,
+ * so instances sharing a font or property don't remove it from under each other.
+ */
+const atRuleRegistry = new Map<string, Map<object | string, IAtRuleRegistration>>()
+
+/**
+ * FontFace objects added to `document.fonts`, by rule. `null` marks rules the
+ * FontFace constructor rejected; those are injected as CSS text instead.
+ */
+const fontFaceObjects = new Map<string, FontFace | null>()
+
+/**
+ * The latest injection per owner. Linked stylesheets are fetched asynchronously;
+ * results arriving after a newer render or a release are dropped.
+ */
+const ownerTokens = new Map<object | string, object>()
+
+/**
+ * Whether the CSS Font Loading API is available.
+ */
+function supportsFontFaceApi(): boolean {
+  return typeof FontFace === 'function' && typeof document !== 'undefined' && !!document.fonts
+}
+
+/**
+ * Check whether a rule is an @font-face rule.
+ */
+function isFontFaceRule(rule: string): boolean {
+  return /^@font-face\b/i.test(rule)
+}
+
+/**
+ * Find the hoisted at-rules of a stylesheet.
+ *
+ * @param cssText - The stylesheet source
+ * @param atRules - The at-rule types to find
+ * @returns The rules in source order
+ */
+function extractRulesFromCss(cssText: string, atRules: readonly HoistableAtRule[]): string[] {
+  return extractAtRules(cssText, atRules).map((rule) => rule.text)
+}
+
+/**
+ * Extract at-rules from the style elements of a parsed document.
+ *
+ * @param doc - The parsed document containing style elements
+ * @param atRules - The at-rule types to extract
+ * @returns The rules in document order
+ *
+ * @example
+ * ```ts
+ * const doc = new DOMParser().parseFromString(html, 'text/html');
+ * const rules = extractGlobalAtRules(doc, ['font-face', 'property']);
+ * ```
+ */
+export function extractGlobalAtRules(
+  doc: Document,
+  atRules: readonly HoistableAtRule[] = ['font-face'],
+): string[] {
+  return Array.from(doc.querySelectorAll('style')).flatMap((styleEl) =>
+    extractRulesFromCss(styleEl.textContent || '', atRules),
+  )
+}
+
+/**
+ * Fetch the stylesheets linked by a document and extract their hoisted at-rules.
+ *
+ * Stylesheets are fetched once per URL (see styleSheets); those that can't be
+ * fetched (network errors, CORS) are skipped.
+ *
+ * @param doc - The parsed document
+ * @param atRules - The at-rule types to extract
+ * @param rewriteUrl - Applied to the resolved URLs of the rules
+ * @returns The rules, with URLs resolved against their stylesheet
+ */
+async function fetchLinkedRules(
+  doc: Document,
+  atRules: readonly HoistableAtRule[],
+  rewriteUrl: IAtRuleHoistingOptions['rewriteUrl'],
+): Promise<string[]> {
+  const links = Array.from(doc.querySelectorAll<HTMLLinkElement>('link[rel~="stylesheet"][href]'))
+  if (links.length === 0) return []
+
+  const sheets = await Promise.all(
+    links.map(async (link) => {
+      let href: string
+      try {
+        href = new URL(link.getAttribute('href') || '', document.baseURI).href
+      } catch {
+        return []
+      }
+      const cssText = await fetchStylesheetText(href)
+      if (cssText === null) return []
+      return extractRulesFromCss(cssText, atRules).map((rule) =>
+        rewriteCssUrls(
+          resolveCssUrls(rule, href),
+          { element: link, attribute: null },
+          { rewriteUrl },
+        ),
+      )
+    }),
+  )
+  return sheets.flat()
+}
+
+/**
+ * Get the unquoted `font-family` of a rule.
+ */
+function getFontFamily(declarations: Map<string, string>): string | undefined {
+  return declarations.get('font-family')?.replace(/^(['"])(.*)\1$/, '$2')
+}
+
+/**
+ * Create (once) the FontFace object for a rule and add it to `document.fonts`.
+ *
+ * @param rule - The @font-face rule
+ * @returns The FontFace, or null when the rule can't be expressed as one
+ */
+function getFontFaceObject(rule: string): FontFace | null {
+  const existing = fontFaceObjects.get(rule)
+  if (existing !== undefined) return existing
+
+  let face: FontFace | null = null
+  const declarations = parseDeclarations(rule)
+  const family = getFontFamily(declarations)
+  const source = declarations.get('src')
+
+  if (family && source) {
+    // `font-weight` becomes `weight`, `unicode-range` becomes `unicodeRange`, etc.
+    const descriptors: Record<string, string> = {}
+    declarations.forEach((value, property) => {
+      if (property === 'font-family' || property === 'src') return
+      const name = property
+        .replace(/^font-/, '')
+        .replace(/-([a-z])/g, (_, c: string) => c.toUpperCase())
+      descriptors[name] = value
+    })
+    try {
+      face = new FontFace(family, source, descriptors as FontFaceDescriptors)
+      document.fonts.add(face)
+    } catch (e) {
+      console.warn('globalAtRules: falling back to CSS injection for', family, e)
+      face = null
+    }
+  }
+
+  fontFaceObjects.set(rule, face)
+  return face
+}
+
+/**
+ * Remove FontFace objects that no registration uses anymore.
+ */
+function syncFontFaceObjects(): void {
+  const used = new Set<string>()
+  atRuleRegistry.forEach((registrations) => {
+    registrations.forEach(({ rules, injection }) => {
+      if (injection === 'fontface') rules.filter(isFontFaceRule).forEach((rule) => used.add(rule))
+    })
+  })
+
+  fontFaceObjects.forEach((face, rule) => {
+    if (used.has(rule)) return
+    if (face) document.fonts.delete(face)
+    fontFaceObjects.delete(rule)
+  })
+}
+
+/**
+ * Write the registered rules of one style element into the main document.
+ *
+ * Owners are written in registration order. Rules of owners with
+ * `preventDuplicates` are skipped when an identical rule was already written.
+ * @font-face rules injected through the Font Loading API are added to
+ * `document.fonts` instead. The style element is removed once no rules are left.
+ *
+ * @param styleElementId - ID of the injected style element
+ */
+function syncStyleElement(styleElementId: string): void {
+  const registrations = atRuleRegistry.get(styleElementId)
+  const written = new Set<string>()
+  const lines: string[] = []
+
+  registrations?.forEach(({ rules, preventDuplicates, injection }) => {
+    rules.forEach((rule) => {
+      if (
+        injection === 'fontface' &&
+        isFontFaceRule(rule) &&
+        supportsFontFaceApi() &&
+        getFontFaceObject(rule)
+      ) {
+        return
+      }
+      if (preventDuplicates && written.has(rule)) return
+      written.add(rule)
+      lines.push(rule)
+    })
+  })
+
+  let styleElement = document.getElementById(styleElementId) as HTMLStyleElement | null
+
+  if (lines.length === 0) {
+    styleElement?.remove()
+  } else {
+    if (!styleElement) {
+      styleElement = document.createElement('style')
+      styleElement.id = styleElementId
+      const nonce = Array.from(registrations?.values() ?? []).find((r) => r.nonce)?.nonce
+      if (nonce) styleElement.setAttribute('nonce', nonce)
+      document.head.appendChild(styleElement)
+    }
+
+    const content = lines.map((rule) => '\n' + rule).join('')
+    // Rewriting unchanged CSS would make the browser re-parse every font
+    if (styleElement.textContent !== content) {
+      styleElement.textContent = content
+    }
+  }
+
+  if (registrations?.size === 0) {
+    atRuleRegistry.delete(styleElementId)
+  }
+  if (supportsFontFaceApi()) {
+    syncFontFaceObjects()
+  }
+}
+
+/**
+ * Remove an owner from the registry.
+ *
+ * @param owner - The owner to remove
+ * @returns The style element IDs the owner had rules in
+ */
+function releaseFromRegistry(owner: object | string): string[] {
+  const ids: string[] = []
+  atRuleRegistry.forEach((registrations, styleElementId) => {
+    if (registrations.delete(owner)) ids.push(styleElementId)
+  })
+  return ids
+}
+
+/**
+ * Register the rules of an owner, replacing what it registered before.
+ */
+function register(owner: object | string, rules: string[], options: IAtRuleHoistingOptions): void {
+  const {
+    styleElementId = 'shadow-dom-fonts',
+    preventDuplicates = true,
+    injection = 'style',
+  } = options
+
+  // An owner only ever holds the rules of its latest render
+  const previousIds = releaseFromRegistry(owner)
+
+  if (rules.length > 0) {
+    let registrations = atRuleRegistry.get(styleElementId)
+    if (!registrations) {
+      registrations = new Map()
+      atRuleRegistry.set(styleElementId, registrations)
+    }
+    registrations.set(owner, {
+      rules: preventDuplicates ? Array.from(new Set(rules)) : rules,
+      preventDuplicates,
+      injection,
+      nonce: options.nonce,
+    })
+  }
+
+  new Set([...previousIds, styleElementId]).forEach(syncStyleElement)
+}
+
+/**
+ * Wait until the given fonts have loaded or failed.
+ *
+ * FontFace objects are loaded directly; fonts injected as CSS text are loaded
+ * by family through `document.fonts.load`, since unused fonts aren't fetched
+ * by the browser on their own.
+ *
+ * @param rules - The registered @font-face rules
+ */
+async function waitForFonts(rules: string[]): Promise<void> {
+  if (rules.length === 0 || typeof document === 'undefined' || !document.fonts) return
+
+  await Promise.all(
+    rules.map((rule) => {
+      const face = fontFaceObjects.get(rule)
+      if (face) return face.load().catch(() => undefined)
+      const family = getFontFamily(parseDeclarations(rule))
+      return family
+        ? document.fonts.load(`1em ${JSON.stringify(family)}`).catch(() => undefined)
+        : undefined
+    }),
+  )
+}
+
+/**
+ * Extract global at-rules from a parsed document and inject them into the main document.
+ *
+ * Shadow DOM has limitations with document-level at-rules: fonts declared inside
+ * shadow trees may not download properly, and `@property`, `@counter-style` and
+ * `@font-feature-values` don't apply reliably. This function extracts the at-rule
+ * types listed in `atRules` (default: only @font-face) and injects them into the
+ * main document, as CSS text in a `<style>` element in <head> or, for @font-face
+ * with `injection: 'fontface'`, as FontFace objects in `document.fonts` (falling
+ * back to CSS text where the API is missing).
+ *
+ * Rules of `<style>` elements are injected synchronously. With `linkedStylesheets`,
+ * `<link rel="stylesheet">` targets are fetched and their rules are added once they
+ * arrive; it is off by default, since rendering would otherwise request every
+ * stylesheet URL the content links to.
+ *
+ * Injection is reference-counted: the rules are registered for `owner`, replacing
+ * whatever that owner registered before, and stay in the document until every
+ * owner using them has called releaseGlobalAtRules.
+ *
+ * @param doc - The parsed document containing style elements
+ * @param owner - Identifies the consumer of the rules (e.g. its shadow root)
+ * @param options - Hoisted rule types, style element ID, injection strategy, duplicate handling
+ *   and the URL hook for rules of linked stylesheets
+ * @returns The registered rules and a promise for the fonts to finish loading
+ *
+ * @example
+ * ```ts
+ * const parser = new DOMParser();
+ * const doc = parser.parseFromString(html, "text/html");
+ * const { loaded } = hoistGlobalAtRules(doc, shadowRoot, {
+ *   atRules: ['font-face', 'property'],
+ *   injection: 'fontface',
+ * });
+ * await loaded;
+ * // ...later, when the content is torn down
+ * releaseGlobalAtRules(shadowRoot);
+ * ```
+ */
+export function hoistGlobalAtRules(
+  doc: Document,
+  owner: object | string,
+  options: IAtRuleHoistingOptions = {},
+): IAtRuleHoistingResult {
+  const { linkedStylesheets = false, atRules = ['font-face'] } = options
+  const rules = extractGlobalAtRules(doc, atRules)
+  const token = {}
+  ownerTokens.set(owner, token)
+
+  register(owner, rules, options)
+
+  const loaded = (async () => {
+    let allRules = rules
+    if (linkedStylesheets) {
+      const linked = await fetchLinkedRules(doc, atRules, options.rewriteUrl)
+      if (ownerTokens.get(owner) !== token) return
+      if (linked.length > 0) {
+        allRules = [...rules, ...linked]
+        register(owner, allRules, options)
+      }
+    }
+    await waitForFonts(allRules.filter(isFontFaceRule))
+  })()
+
+  return { rules, fontFaces: rules.filter(isFontFaceRule), loaded }
+}
+
+/**
+ * Release the at-rules registered for an owner.
+ *
+ * Counterpart of hoistGlobalAtRules: rules that no other owner uses are
+ * removed from the main document (or `document.fonts`), and a style element is
+ * removed once it no longer holds any rules.
+ *
+ * @param owner - The owner passed to hoistGlobalAtRules
+ *
+ * @example
+ * ```ts
+ * releaseGlobalAtRules(shadowRoot);
+ * ```
+ */
+export function releaseGlobalAtRules(owner: object | string): void {
+  ownerTokens.delete(owner)
+  releaseFromRegistry(owner).forEach(syncStyleElement)
+}
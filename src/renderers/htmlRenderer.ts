@@ -0,0 +1,695 @@
+/**
+ * Framework-Agnostic HTML Renderer
+ *
+ * This module combines the direct, shadow and iframe renderers into one renderer
+ * bound to a host element. It has no framework dependency and can be used from plain
+ * web pages, React or any other framework; the Vue composable (useHtmlRenderer) is
+ * a thin adapter around it.
+ *
+ * Key Features:
+ * - One host element, three modes (direct, shadow, iframe); switching modes clears
+ *   the previous output
+ * - `replace` or `morph` updates, sanitization, script policy and hooks
+ * - Loading content from a `src` URL (see htmlSource)
+ * - URL resolution and rewriting (`baseUrl`, `rewriteUrl`; see urlRewriter)
+ * - CSP nonce propagation and Trusted Types (`nonce`, `trustedTypes`; see contentSecurity)
+ * - Hydration of server-rendered output (see serverRenderer)
+ * - Font, at-rule and stylesheet handling in shadow mode
+ * - Host theme bridge (custom properties and `part` assignment)
+ * - Slot regions and a `mountContent` extension point for framework components
+ *
+ * @module htmlRenderer
+ */
+
+import { RenderMode } from '../extras/types'
+import type {
+  IHtmlRenderer,
+  IHtmlRendererCoreOptions,
+  IIframeRenderResult,
+  IScriptExecutionHooks,
+  ITrustedHTML,
+  IUrlRewriteOptions,
+  RenderStatus,
+} from '../extras/types'
+import { applyCssVariables, assignParts } from '../extras/themeBridge'
+import { clearShadowRoot, hydrateShadowRoot, renderIntoShadowRoot } from './shadowRenderer'
+import { releaseGlobalAtRules } from './globalAtRules'
+import { clearElement, hydrateDirectly, renderDirectly } from './directRenderer'
+import { renderIntoIframe } from './iframeRenderer'
+import { findServerMarker } from './serverRenderer'
+import { fetchHtml } from './htmlSource'
+
+/**
+ * Create a renderer for a host element.
+ *
+ * **How it works:**
+ *
+ * Direct Mode:
+ * 1. Parses HTML and extracts scripts (replacing with placeholders)
+ * 2. Appends content to the host
+ * 3. Executes scripts in proper order (sequential, async, defer)
+ *
+ * Shadow Mode:
+ * 1. Attaches a shadow root to the host on first use
+ * 2. Parses HTML using DOMParser to preserve structure
+ * 3. Hoists @font-face (and opted-in) at-rules into the main document, optionally
+ *    hiding the host until fonts have loaded
+ * 4. Imports and appends entire HTML structure to shadow root
+ * 5. Executes scripts inside the shadow tree (only with `executeScripts: true`)
+ *
+ * Iframe Mode:
+ * 1. Builds a complete document with a message bridge script in its `<head>`
+ * 2. Writes it into a new sandboxed iframe's `srcdoc` inside the host
+ * 3. Resizes the iframe whenever the content reports a new height
+ *
+ * Nothing is rendered until `render()` is called. The first render hydrates
+ * server-rendered output of the same content instead of rendering it again.
+ * With `src`, every render loads the HTML first; the previous content stays on
+ * screen until it has arrived.
+ *
+ * @param target - The host element
+ * @param options - Content, mode, render options and hooks
+ * @returns The renderer (render, update, clear, destroy and render state)
+ *
+ * @example
+ * ```ts
+ * const renderer = createHtmlRenderer(document.getElementById('content')!, {
+ *   html: '<p>Hello</p><script>console.log("hi")</script>',
+ *   onRendered: () => console.log('done'),
+ * });
+ * await renderer.render();
+ *
+ * // Re-renders because the HTML changed; theme changes are applied in place
+ * await renderer.update({ html: '<p>Bye</p>', theme: { brand: '#0a7' } });
+ *
+ * renderer.destroy();
+ * ```
+ */
+export function createHtmlRenderer(
+  target: HTMLElement,
+  options: IHtmlRendererCoreOptions = {},
+): IHtmlRenderer {
+  let current: IHtmlRendererCoreOptions = { ...options }
+
+  const host = target
+  // The attached shadow root, also for closed roots that aren't exposed through `shadowRoot`
+  let attachedShadowRoot: ShadowRoot | undefined
+  // When the host is inside a Custom Element (ShadowRoot), direct and iframe modes render
+  // into a light-DOM sibling container placed next to the custom element host
+  let externalTarget: HTMLElement | undefined
+
+  // Mode of the content currently on screen, so teardown targets the right container
+  let renderedMode: RenderMode | undefined
+  // The iframe of the last iframe-mode render
+  let iframeHandle: IIframeRenderResult | undefined
+
+  let status: RenderStatus = 'idle'
+  let loading = false
+  let loadError: unknown = undefined
+  // Aborts the `src` request of the latest render
+  let loadController: AbortController | undefined
+  // Incremented by every render and clear; lets a superseded render bail out silently
+  let renderGeneration = 0
+  // Server-rendered output is only looked for on the first render
+  let firstRender = true
+  let destroyed = false
+
+  let resolveReady!: () => void
+  let rejectReady!: (reason: unknown) => void
+  const ready = new Promise<void>((resolve, reject) => {
+    resolveReady = resolve
+    rejectReady = reject
+  })
+  // Consumers that never await `ready` shouldn't see unhandled rejections
+  ready.catch(() => {})
+
+  let resolveFontsReady!: () => void
+  const fontsReady = new Promise<void>((resolve) => {
+    resolveFontsReady = resolve
+  })
+  // Whether the host is hidden until the fonts of the current render have loaded
+  let hiddenForFonts = false
+  // Custom properties set on the host by `theme`, removed when they leave the map
+  let themeProperties = applyCssVariables(host, current.theme)
+  // Undoes what `mountContent` did for the last render
+  let unmountContent: (() => void) | void = undefined
+  // Elements slot content goes into, by slot name
+  let slotTargets: Record<string, Element> = {}
+  // Light-DOM wrappers created for native `<slot name>` elements in shadow mode
+  let slotHosts: HTMLElement[] = []
+
+  function getMode(): RenderMode {
+    return current.mode ?? RenderMode.Direct
+  }
+
+  function setStatus(next: RenderStatus): void {
+    status = next
+    current.onStatusChange?.(next)
+  }
+
+  function setLoadState(nextLoading: boolean, error: unknown): void {
+    loading = nextLoading
+    loadError = error
+    current.onLoadStateChange?.(loading, loadError)
+  }
+
+  function getScriptHooks(): IScriptExecutionHooks {
+    const { onScriptBlocked, onScriptLoaded, onScriptError } = current
+    return { onScriptBlocked, onScriptLoaded, onScriptError }
+  }
+
+  /**
+   * The URL options of a render; content loaded from `src` resolves against its URL
+   * unless `baseUrl` is set.
+   *
+   * @param sourceUrl - The URL the content was loaded from, if any
+   */
+  function getUrlOptions(sourceUrl: string | undefined): IUrlRewriteOptions {
+    return { baseUrl: current.baseUrl ?? sourceUrl, rewriteUrl: current.rewriteUrl }
+  }
+
+  /**
+   * Get the target element for direct and iframe rendering.
+   */
+  function getTargetEl(): HTMLElement {
+    return externalTarget ?? host
+  }
+
+  /**
+   * Assign the `parts` map to the shadow-mode content on screen.
+   */
+  function applyParts(): void {
+    if (renderedMode === RenderMode.Shadow && attachedShadowRoot) {
+      assignParts(attachedShadowRoot, current.parts)
+    }
+  }
+
+  /**
+   * Call `mountContent` for the content on screen, undoing the previous call first.
+   */
+  function mountContent(currentMode: RenderMode | undefined): void {
+    unmountContent?.()
+    unmountContent = undefined
+    const root = currentMode === RenderMode.Shadow ? attachedShadowRoot : getTargetEl()
+    if (current.mountContent && root && currentMode !== undefined) {
+      if (currentMode !== RenderMode.Iframe) unmountContent = current.mountContent(root)
+    }
+  }
+
+  /**
+   * Resolve the `slotNames` to elements of the rendered content.
+   *
+   * A `[data-slot="name"]` element receives the slot content directly. In shadow mode a
+   * `<slot name="name">` is used instead if there is no such element: the slot content
+   * goes into a light-DOM wrapper on the host, which native slotting projects into the
+   * shadow tree. Target elements are marked so morphing keeps their (framework-owned)
+   * children.
+   *
+   * @param currentMode - The mode of the content on screen; undefined after a clear
+   */
+  function updateSlotTargets(currentMode: RenderMode | undefined): void {
+    const root = currentMode === RenderMode.Shadow ? attachedShadowRoot : getTargetEl()
+    const targets: Record<string, Element> = {}
+    const hosts: HTMLElement[] = []
+
+    if (root && currentMode !== undefined && currentMode !== RenderMode.Iframe) {
+      const byAttribute = (selector: string, attr: string, name: string) =>
+        Array.from(root.querySelectorAll(selector)).find((el) => el.getAttribute(attr) === name)
+
+      ;(current.slotNames ?? []).forEach((name) => {
+        const region = byAttribute('[data-slot]', 'data-slot', name)
+        if (region) {
+          ;(region as any).__html_renderer_slot = true
+          targets[name] = region
+          return
+        }
+
+        const slot = currentMode === RenderMode.Shadow && byAttribute('slot[name]', 'name', name)
+        if (!slot) return
+        // Reusing the wrapper keeps slot content in place
+        let wrapper = slotHosts.find((el) => el.getAttribute('slot') === name)
+        if (!wrapper) {
+          wrapper = document.createElement('div')
+          wrapper.setAttribute('slot', name)
+          wrapper.style.display = 'contents'
+          host.appendChild(wrapper)
+        }
+        if (attachedShadowRoot?.slotAssignment === 'manual') {
+          ;(slot as HTMLSlotElement).assign?.(wrapper)
+        }
+        hosts.push(wrapper)
+        targets[name] = wrapper
+      })
+    }
+
+    slotHosts.filter((el) => !hosts.includes(el)).forEach((el) => el.remove())
+    slotHosts = hosts
+    slotTargets = targets
+    current.onSlotTargetsChange?.(targets)
+  }
+
+  /**
+   * Report that the fonts of a render have settled.
+   *
+   * With `fonts.hideUntilLoaded`, the host is hidden until then (or until
+   * `fonts.revealTimeout` has passed). Superseded renders report nothing.
+   *
+   * @param loaded - Resolves once the fonts have loaded or failed
+   * @param generation - The render generation the fonts belong to
+   */
+  function trackFonts(loaded: Promise<void>, generation: number): void {
+    const { fonts } = current
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const reveal = () => {
+      clearTimeout(timer)
+      if (generation !== renderGeneration) return
+      if (hiddenForFonts) {
+        host.style.removeProperty('visibility')
+        hiddenForFonts = false
+      }
+    }
+
+    if (fonts?.hideUntilLoaded) {
+      host.style.visibility = 'hidden'
+      hiddenForFonts = true
+      timer = setTimeout(reveal, fonts.revealTimeout ?? 3000)
+    }
+
+    void loaded.then(() => {
+      reveal()
+      if (generation !== renderGeneration) return
+      resolveFontsReady()
+      current.onFontsLoaded?.()
+    })
+  }
+
+  /**
+   * Clear all rendered content from the host element or shadow root.
+   *
+   * This function adapts its behavior based on the mode of the current output:
+   * - Shadow mode: Clears shadow root content and removes injected @font-face rules
+   * - Direct mode: Clears target element content (including recreated scripts)
+   * - Iframe mode: Removes the iframe and stops listening for its messages
+   *
+   * A render that is still loading `src` or running its scripts is abandoned.
+   * `onCleared` is only called when there was rendered content to remove.
+   */
+  function clear(): void {
+    const hadContent = renderedMode !== undefined
+    renderGeneration++
+    abortLoad()
+
+    mountContent(undefined)
+    updateSlotTargets(undefined)
+
+    if (iframeHandle) {
+      iframeHandle.dispose()
+      iframeHandle = undefined
+    }
+
+    if (renderedMode === RenderMode.Shadow && attachedShadowRoot) {
+      clearShadowRoot(attachedShadowRoot)
+      releaseGlobalAtRules(attachedShadowRoot)
+    } else {
+      clearElement(getTargetEl())
+    }
+    renderedMode = undefined
+    setStatus('idle')
+
+    if (hiddenForFonts) {
+      host.style.removeProperty('visibility')
+      hiddenForFonts = false
+    }
+
+    if (hadContent) {
+      current.onCleared?.()
+    }
+  }
+
+  /**
+   * Attach the shadow root on first use.
+   *
+   * A host can only ever have one shadow root, so it is created lazily and kept
+   * for the lifetime of the renderer, even when switching back to direct mode.
+   * Closed roots are only held privately; `shadowRoot` stays undefined.
+   * A declarative shadow root from server-side rendering is reused.
+   */
+  function ensureShadowRoot(): ShadowRoot | undefined {
+    if (!attachedShadowRoot) {
+      try {
+        attachedShadowRoot =
+          host.shadowRoot ?? host.attachShadow({ mode: 'open', ...current.shadowRootInit })
+      } catch (e) {
+        console.error('Failed to attach shadow root:', e)
+      }
+    }
+    return attachedShadowRoot
+  }
+
+  /**
+   * Set up the direct-mode render target.
+   *
+   * Checks if the host is mounted inside a Custom Element and, if so, creates an
+   * external light-DOM container next to the custom element host.
+   */
+  function setupDirectTarget(): void {
+    if (externalTarget) return
+
+    try {
+      const root = host.getRootNode?.()
+      if (root && (root as any).host && typeof (root as any).host === 'object') {
+        // Likely a ShadowRoot - render outside into light DOM
+        const ceHost = (root as ShadowRoot).host as HTMLElement
+        const parent = ceHost.parentNode as (Node & ParentNode) | null
+        if (parent && typeof (parent as any).insertBefore === 'function') {
+          const external = document.createElement('div')
+          external.setAttribute('data-html-render-target', '')
+          // Insert right after the custom element host for visual adjacency
+          parent.insertBefore(external, ceHost.nextSibling)
+          externalTarget = external
+        }
+      }
+    } catch {
+      // Fallback silently to internal host
+    }
+  }
+
+  /**
+   * Check the host for server-rendered output of the current content.
+   *
+   * @returns Whether the output can be hydrated
+   */
+  function claimServerOutput(): boolean {
+    const marker = findServerMarker(host, String(current.html ?? ''), getMode())
+    // Browsers without Declarative Shadow DOM leave the template in the light DOM
+    const hydrating = !!marker && (getMode() !== RenderMode.Shadow || !!host.shadowRoot)
+    if (hydrating) {
+      marker?.remove()
+    } else if (host.shadowRoot) {
+      // The declarative shadow root of stale server output would hide the new content
+      const root = ensureShadowRoot()
+      if (root) clearShadowRoot(root)
+    }
+    return hydrating
+  }
+
+  /**
+   * Load the HTML of `src`, aborting the request of a previous render.
+   *
+   * @returns The HTML and its URL, or undefined if the load was superseded
+   * @throws The load error, once it is reported through `status` and `error`
+   */
+  async function loadSource(src: string): Promise<{ html: string; url: string } | undefined> {
+    loadController?.abort()
+    const controller = new AbortController()
+    loadController = controller
+    setLoadState(true, undefined)
+
+    try {
+      const loaded = await fetchHtml(src, { signal: controller.signal })
+      if (controller.signal.aborted) return undefined
+      setLoadState(false, undefined)
+      return loaded
+    } catch (e) {
+      if (controller.signal.aborted) return undefined
+      console.error(`htmlRenderer: failed to load "${src}"`, e)
+      setLoadState(false, e)
+      setStatus('error')
+      rejectReady(e)
+      throw e
+    } finally {
+      if (loadController === controller) loadController = undefined
+    }
+  }
+
+  /**
+   * Stop loading `src`, e.g. because newer content replaces it.
+   */
+  function abortLoad(): void {
+    if (!loadController) return
+    loadController.abort()
+    loadController = undefined
+    setLoadState(false, loadError)
+  }
+
+  /**
+   * Render HTML content based on the selected mode.
+   *
+   * This is the main rendering orchestrator: it tears down the previous output
+   * and delegates to the appropriate renderer based on the mode.
+   *
+   * When morphing within the same mode, the previous output is kept so the
+   * renderer can patch it.
+   * Iframe mode can't be morphed and always replaces the iframe.
+   *
+   * When hydrating, the server-rendered output is kept and only the client-side
+   * steps run (see hydrateDirectly and hydrateShadowRoot).
+   *
+   * With `src`, the HTML is loaded first; a render started meanwhile aborts the load.
+   *
+   * Progress is reported through `status`, `ready` and the lifecycle hooks. `ready`
+   * only settles with the first render that completes or fails; the returned promise
+   * is the one of this render.
+   *
+   * @param html - New content; defaults to the current `html` option (ignored while
+   *   `src` is set)
+   * @throws Why this render failed; a superseded render resolves
+   */
+  async function render(html?: string | ITrustedHTML): Promise<void> {
+    if (destroyed) return
+    if (html !== undefined) current.html = html
+
+    abortLoad()
+    let content = current.html ?? ''
+    let sourceUrl: string | undefined
+    if (current.src) {
+      const loaded = await loadSource(current.src)
+      if (loaded === undefined || destroyed) return
+      content = loaded.html
+      sourceUrl = loaded.url
+    }
+
+    const hydrating = firstRender && !current.src && claimServerOutput()
+    firstRender = false
+
+    const currentMode = getMode()
+    const {
+      updateStrategy: strategy = 'replace',
+      sanitize = false,
+      scriptPolicy,
+      scriptLoading,
+      sandboxScripts = false,
+      trackSideEffects = false,
+      nonce,
+      trustedTypes,
+    } = current
+
+    current.onBeforeRender?.()
+
+    // Mounted content owns the placeholder contents, which a morph would strip
+    mountContent(undefined)
+
+    // Morphing keeps the previous output; the renderer replaces the shadow root's fonts itself
+    const morphInPlace =
+      strategy === 'morph' && renderedMode === currentMode && currentMode !== RenderMode.Iframe
+    if (!morphInPlace && !hydrating) {
+      clear()
+    }
+
+    const generation = ++renderGeneration
+    setStatus('rendering')
+
+    try {
+      if (currentMode === RenderMode.Shadow) {
+        // Shadow DOM mode: Render with style isolation
+        const root = ensureShadowRoot()
+        if (!root) {
+          throw new Error('Shadow root not available for rendering')
+        }
+        renderedMode = RenderMode.Shadow
+        const renderShadow = hydrating ? hydrateShadowRoot : renderIntoShadowRoot
+        const result = renderShadow(root, content, {
+          updateStrategy: strategy,
+          sanitize,
+          executeScripts: current.executeScripts ?? false,
+          sandboxScripts,
+          trackSideEffects,
+          fonts: current.fonts,
+          hoistAtRules: current.hoistAtRules,
+          adoptStyleSheets: current.adoptStyleSheets ?? false,
+          hostStyleSheets: current.hostStyleSheets,
+          scriptPolicy,
+          scriptLoading,
+          nonce,
+          trustedTypes,
+          ...getUrlOptions(sourceUrl),
+          ...getScriptHooks(),
+        })
+        applyParts()
+        trackFonts(result.fontsReady, generation)
+        await Promise.all([result.styleSheets, result.scripts])
+      } else {
+        if (attachedShadowRoot && !attachedShadowRoot.querySelector('slot')) {
+          // The host keeps its shadow root after a mode switch; expose the light DOM through it
+          attachedShadowRoot.appendChild(document.createElement('slot'))
+        }
+        setupDirectTarget()
+        const target = getTargetEl()
+        renderedMode = currentMode
+
+        if (currentMode === RenderMode.Iframe) {
+          // Iframe mode: Render into a sandboxed srcdoc iframe
+          iframeHandle = renderIntoIframe(target, content, {
+            ...current.iframe,
+            sanitize,
+            nonce,
+            trustedTypes,
+            onMessage: current.onMessage,
+          })
+          await iframeHandle.loaded
+        } else if (hydrating) {
+          // Direct mode: Keep the server output and run its deferred scripts
+          await hydrateDirectly(target, {
+            scriptPolicy,
+            scriptLoading,
+            sandboxScripts,
+            trackSideEffects,
+            nonce,
+            trustedTypes,
+            ...getScriptHooks(),
+          })
+        } else {
+          // Direct mode: Render with script execution
+          await renderDirectly(target, content, {
+            updateStrategy: strategy,
+            sanitize,
+            scriptPolicy,
+            scriptLoading,
+            sandboxScripts,
+            trackSideEffects,
+            nonce,
+            trustedTypes,
+            ...getUrlOptions(sourceUrl),
+            ...getScriptHooks(),
+          })
+        }
+
+        if (attachedShadowRoot?.slotAssignment === 'manual' && target === host) {
+          // Manually assigned slots don't pick up the light DOM on their own
+          const nodes = Array.from(target.childNodes).filter(
+            (node): node is Element | Text => node instanceof Element || node instanceof Text,
+          )
+          attachedShadowRoot.querySelector('slot')?.assign?.(...nodes)
+        }
+      }
+    } catch (e) {
+      if (generation !== renderGeneration) return
+      console.error('htmlRenderer: render failed', e)
+      setStatus('error')
+      rejectReady(e)
+      throw e
+    }
+
+    // A newer render or a clear() took over while scripts were running
+    if (generation !== renderGeneration) return
+
+    if (currentMode !== RenderMode.Shadow) {
+      // Fonts are only hoisted (and tracked) in shadow mode
+      trackFonts(Promise.resolve(), generation)
+    }
+
+    mountContent(currentMode)
+    updateSlotTargets(currentMode)
+
+    setStatus('rendered')
+    resolveReady()
+    current.onRendered?.()
+  }
+
+  /**
+   * Change options of the renderer.
+   *
+   * A changed `html`, `src`, `baseUrl` or `mode` re-renders the content; `theme` and `parts` are
+   * applied to the content on screen. Other options take effect on the next render.
+   *
+   * @param patch - The options to change
+   * @returns Resolves once the re-render (if any) has completed; rejects if it fails
+   */
+  function update(patch: Partial<IHtmlRendererCoreOptions>): Promise<void> {
+    const previous = current
+    current = { ...current, ...patch }
+    if (destroyed) return Promise.resolve()
+
+    if ('theme' in patch) {
+      themeProperties = applyCssVariables(host, current.theme, themeProperties)
+    }
+    if ('parts' in patch) {
+      applyParts()
+    }
+
+    const rerender =
+      ('src' in patch && current.src !== previous.src) ||
+      ('baseUrl' in patch && current.baseUrl !== previous.baseUrl) ||
+      ('html' in patch && !current.src && current.html !== previous.html) ||
+      ('mode' in patch && getMode() !== (previous.mode ?? RenderMode.Direct))
+    return rerender ? render() : Promise.resolve()
+  }
+
+  /**
+   * Clear the content and remove everything the renderer added to the page: the
+   * external container, theme properties and slot wrappers. The renderer can't be
+   * used afterwards.
+   */
+  function destroy(): void {
+    if (destroyed) return
+
+    // Clear content safely
+    try {
+      clear()
+    } catch (e) {
+      if (typeof console !== 'undefined' && typeof console.debug === 'function') {
+        console.debug('htmlRenderer: clear() failed during destroy', e)
+      }
+    }
+    destroyed = true
+
+    // If an external container was created by this renderer, remove it from the DOM
+    externalTarget?.remove()
+    externalTarget = undefined
+    themeProperties = applyCssVariables(host, undefined, themeProperties)
+  }
+
+  /**
+   * Send a message to the content of the current iframe-mode render.
+   * Messages are delivered to `htmlRendererBridge.on(type, handler)` inside the iframe.
+   */
+  function postMessage<T = unknown>(type: string, payload?: T): void {
+    iframeHandle?.postMessage(type, payload)
+  }
+
+  return {
+    render,
+    update,
+    clear,
+    destroy,
+    postMessage,
+    ready,
+    fontsReady,
+    get status() {
+      return status
+    },
+    get shadowRoot() {
+      return attachedShadowRoot?.mode === 'open' ? attachedShadowRoot : undefined
+    },
+    get slotTargets() {
+      return slotTargets
+    },
+    get loading() {
+      return loading
+    },
+    get error() {
+      return loadError
+    },
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * HTML Sources
+ *
+ * This module loads the HTML of a `src` URL for the renderers. Relative URLs in the
+ * loaded HTML would otherwise resolve against the page instead of the document they
+ * came from; the renderer uses the returned URL as the content's `baseUrl` (see
+ * urlRewriter), so they resolve as under a `<base href>`.
+ *
+ * Key Features:
+ * - Fetches with an AbortSignal, so superseded loads can be cancelled
+ * - Responses are cached by URL and revalidated with their ETag (`If-None-Match`); the
+ *   cache keeps the most recently used URLs (see MAX_CACHED_SOURCES)
+ * - Reports the URL the HTML was served from, after redirects
+ *
+ * @module htmlSource
+ */
+
+/**
+ * How many URLs the source cache keeps; the least recently used one is dropped first.
+ */
+const MAX_CACHED_SOURCES = 50
+
+/**
+ * Loaded HTML by absolute URL, with the ETag it was served with and its final URL.
+ * In order of use, least recent first.
+ */
+const sourceCache = new Map<string, { etag: string; html: string; url: string }>()
+
+/**
+ * Load the HTML of a URL.
+ *
+ * Responses with an `ETag` are cached; later loads of the same URL send it as
+ * `If-None-Match` and reuse the cached HTML on `304 Not Modified`.
+ *
+ * @param src - The URL to load, relative to the page
+ * @param options - An AbortSignal cancelling the request
+ * @returns The HTML and the absolute URL it was served from, to resolve its relative URLs
+ * @throws For network errors, aborted requests and non-OK responses
+ *
+ * @example
+ * ```ts
+ * const controller = new AbortController();
+ * const { html, url } = await fetchHtml('/fragments/coupon.html', { signal: controller.signal });
+ * ```
+ */
+export async function fetchHtml(
+  src: string,
+  options: { signal?: AbortSignal } = {},
+): Promise<{ html: string; url: string }> {
+  // The absolute URL keys the cache and is the base for relative URLs
+  const url = new URL(src, document.baseURI).href
+  const cached = sourceCache.get(url)
+
+  const response = await fetch(src, {
+    signal: options.signal,
+    headers: cached ? { 'If-None-Match': cached.etag } : undefined,
+  })
+  if (cached && response.status === 304) {
+    touchSource(url, cached)
+    return { html: cached.html, url: cached.url }
+  }
+  if (!response.ok) {
+    throw new Error(`htmlSource: failed to load "${src}" (HTTP ${response.status})`)
+  }
+
+  const html = await response.text()
+  // Redirected responses resolve against the URL they were served from
+  const finalUrl = response.url || url
+  const etag = response.headers?.get('ETag')
+  if (etag) {
+    touchSource(url, { etag, html, url: finalUrl })
+  } else {
+    sourceCache.delete(url)
+  }
+  return { html, url: finalUrl }
+}
+
+/**
+ * Store a cache entry as the most recently used one, dropping the least recently used
+ * entries beyond MAX_CACHED_SOURCES.
+ */
+function touchSource(url: string, entry: { etag: string; html: string; url: string }): void {
+  sourceCache.delete(url)
+  sourceCache.set(url, entry)
+  for (const oldest of sourceCache.keys()) {
+    if (sourceCache.size <= MAX_CACHED_SOURCES) break
+    sourceCache.delete(oldest)
+  }
+}
+
+/**
+ * Forget all loaded HTML, so the next loads fetch without revalidation, e.g. after
+ * deploying new content whose server doesn't send ETags that change with it.
+ *
+ * @example
+ * ```ts
+ * clearHtmlSourceCache();
+ * ```
+ */
+export function clearHtmlSourceCache(): void {
+  sourceCache.clear()
+}
@@ -0,0 +1,243 @@
+/**
+ * Iframe Renderer Implementation
+ *
+ * This module contains the logic for rendering HTML content into a sandboxed
+ * `srcdoc` iframe. It is meant for untrusted content: the default sandbox only
+ * allows scripts, so the content runs in an opaque origin without access to the
+ * host page, its cookies or its storage.
+ *
+ * Key Features:
+ * - Configurable `sandbox` flags (default: `allow-scripts`)
+ * - Automatic height adjustment to the content
+ * - A small message bridge for typed postMessage communication in both directions
+ *
+ * Inside the iframe, a bridge script exposes `window.htmlRendererBridge`:
+ * - `htmlRendererBridge.send(type, payload)`: Send a message to the host
+ * - `htmlRendererBridge.on(type, handler)`: Receive messages sent by the host;
+ *   returns a function that removes the handler
+ *
+ * Every message is wrapped in an envelope carrying a per-render channel id, and the
+ * host only accepts messages whose `source` is the iframe's own window.
+ *
+ * @module iframeRenderer
+ */
+
+import { parseHtmlDocument, uid } from '../extras/utils'
+import { sanitizeTree } from '../extras/sanitizer'
+import {
+  applyStyleNonce,
+  toTrustedHTML,
+  toTrustedScript,
+  writeSink,
+} from '../extras/contentSecurity'
+import type {
+  IIframeMessage,
+  IIframeRenderOptions,
+  IIframeRenderResult,
+  ITrustedHTML,
+} from '../extras/types'
+
+/**
+ * Marker identifying envelopes sent by this library.
+ */
+const MESSAGE_SOURCE = 'vue-html-renderer'
+
+/**
+ * Envelope wrapping every message exchanged with the iframe.
+ *
+ * - `kind: 'resize'`: Sent by the bridge with the content height as payload
+ * - `kind: 'message'`: Application messages
+ */
+interface IBridgeEnvelope extends IIframeMessage {
+  source: typeof MESSAGE_SOURCE
+  channel: string
+  kind: 'resize' | 'message'
+}
+
+/**
+ * Build the bridge script injected at the top of the iframe document.
+ *
+ * @param channel - Channel id shared with the host
+ * @param autoResize - Whether the content reports its height
+ * @returns The script source
+ */
+function createBridgeScript(channel: string, autoResize: boolean): string {
+  return `(function () {
+  var SOURCE = ${JSON.stringify(MESSAGE_SOURCE)};
+  var CHANNEL = ${JSON.stringify(channel)};
+  var handlers = {};
+  function post(kind, type, payload) {
+    parent.postMessage({ source: SOURCE, channel: CHANNEL, kind: kind, type: type, payload: payload }, '*');
+  }
+  window.htmlRendererBridge = {
+    send: function (type, payload) { post('message', type, payload); },
+    on: function (type, handler) {
+      (handlers[type] = handlers[type] || []).push(handler);
+      return function () {
+        handlers[type] = (handlers[type] || []).filter(function (h) { return h !== handler; });
+      };
+    }
+  };
+  window.addEventListener('message', function (e) {
+    var d = e.data;
+    if (e.source !== parent || !d || d.source !== SOURCE || d.channel !== CHANNEL) return;
+    (handlers[d.type] || []).forEach(function (h) { h(d.payload); });
+  });
+  if (${autoResize}) {
+    var last = -1;
+    var report = function () {
+      var height = document.documentElement.scrollHeight;
+      if (height !== last) { last = height; post('resize', 'resize', height); }
+    };
+    window.addEventListener('load', report);
+    if (typeof ResizeObserver === 'function') {
+      new ResizeObserver(report).observe(document.documentElement);
+    }
+    report();
+  }
+})();`
+}
+
+/**
+ * Check whether message data is an envelope of the given channel.
+ */
+function isBridgeEnvelope(data: unknown, channel: string): data is IBridgeEnvelope {
+  if (!data || typeof data !== 'object') return false
+  const envelope = data as Partial<IBridgeEnvelope>
+  return (
+    envelope.source === MESSAGE_SOURCE &&
+    envelope.channel === channel &&
+    typeof envelope.type === 'string'
+  )
+}
+
+/**
+ * Build the complete document written into the iframe's `srcdoc`.
+ *
+ * The HTML is parsed with DOMParser (so fragments become full documents), optionally
+ * sanitized, and the bridge script is inserted as the first element of `<head>` so it
+ * is available to every script of the content.
+ *
+ * @param html - The HTML to render
+ * @param channel - Channel id shared with the host
+ * @param options - Sanitizer, resize and CSP options
+ * @returns The serialized document
+ *
+ * @example
+ * ```ts
+ * iframe.srcdoc = buildIframeDocument('<p>Hello</p>', uid(), { autoResize: true });
+ * ```
+ */
+export function buildIframeDocument(
+  html: string | ITrustedHTML,
+  channel: string,
+  options: Pick<IIframeRenderOptions, 'sanitize' | 'autoResize' | 'nonce' | 'trustedTypes'> = {},
+): string {
+  const { sanitize = false, autoResize = true, nonce } = options
+  const doc = parseHtmlDocument(html, options)
+
+  if (sanitize) {
+    sanitizeTree(doc, sanitize)
+  }
+
+  // Added after sanitization so strict presets don't remove it
+  const bridge = doc.createElement('script')
+  writeSink('script text', () => {
+    bridge.textContent = toTrustedScript(createBridgeScript(channel, autoResize), options)
+  })
+  // A srcdoc iframe inherits the page's CSP
+  if (nonce) bridge.setAttribute('nonce', nonce)
+  doc.head.prepend(bridge)
+  applyStyleNonce(doc, nonce)
+
+  return `<!DOCTYPE html>${doc.documentElement.outerHTML}`
+}
+
+/**
+ * Render HTML into a new sandboxed iframe appended to the target.
+ *
+ * The iframe is styled to take the full width of the target without a border;
+ * with `autoResize` its height follows the content's height.
+ *
+ * @param target - The element the iframe is appended to
+ * @param html - The HTML to render
+ * @param options - Sandbox, resize, sanitizer and message options
+ * @returns The iframe, a promise for its load event, and functions to talk to it and remove it
+ *
+ * @example
+ * ```ts
+ * const { loaded, postMessage, dispose } = renderIntoIframe(container, html, {
+ *   sandbox: 'allow-scripts allow-forms',
+ *   onMessage: ({ type, payload }) => console.log(type, payload),
+ * });
+ * await loaded;
+ * postMessage('theme', { dark: true });
+ * ```
+ */
+export function renderIntoIframe(
+  target: Node & ParentNode,
+  html: string | ITrustedHTML,
+  options: IIframeRenderOptions = {},
+): IIframeRenderResult {
+  const { sandbox = 'allow-scripts', autoResize = true, allow, title, onMessage } = options
+  const channel = uid()
+
+  const iframe = document.createElement('iframe')
+  iframe.setAttribute('sandbox', sandbox)
+  if (allow) iframe.setAttribute('allow', allow)
+  if (title) iframe.title = title
+  iframe.style.display = 'block'
+  iframe.style.width = '100%'
+  iframe.style.border = '0'
+  const srcdoc = buildIframeDocument(html, channel, options)
+  writeSink('iframe.srcdoc', () => {
+    // Sanitized while it was parsed; sanitizing again would strip the bridge script
+    iframe.srcdoc = toTrustedHTML(srcdoc, { trustedTypes: options.trustedTypes })
+  })
+
+  const handleMessage = (event: MessageEvent) => {
+    // Only the iframe's own window may talk on this channel
+    if (event.source !== iframe.contentWindow || !isBridgeEnvelope(event.data, channel)) return
+
+    const { kind, type, payload } = event.data
+    if (kind === 'resize') {
+      if (autoResize && typeof payload === 'number' && payload >= 0) {
+        iframe.style.height = `${payload}px`
+      }
+    } else {
+      onMessage?.({ type, payload })
+    }
+  }
+  window.addEventListener('message', handleMessage)
+
+  let settleLoaded!: () => void
+  const loaded = new Promise<void>((resolve) => {
+    settleLoaded = resolve
+    iframe.addEventListener('load', () => resolve(), { once: true })
+  })
+
+  target.appendChild(iframe)
+
+  return {
+    iframe,
+    loaded,
+    postMessage: (type, payload) => {
+      const envelope: IBridgeEnvelope = {
+        source: MESSAGE_SOURCE,
+        channel,
+        kind: 'message',
+        type,
+        payload,
+      }
+      // Sandboxed content has an opaque origin, so no narrower target origin is possible;
+      // the channel id keeps other listeners from picking the message up by accident
+      iframe.contentWindow?.postMessage(envelope, '*')
+    },
+    dispose: () => {
+      window.removeEventListener('message', handleMessage)
+      iframe.remove()
+      // A removed iframe never loads; don't leave a render waiting for it
+      settleLoaded()
+    },
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Script Sandboxes
+ *
+ * Inline scripts of rendered content normally run in the page's global scope, so two
+ * widgets that both declare `var config` or assign `window.onresize` overwrite each
+ * other (and the app). With `sandboxScripts`, the renderers run inline scripts against
+ * a sandbox per render target instead: a `Proxy`-wrapped `window` and `document`.
+ *
+ * Key Features:
+ * - Globals written by the content (`var`, top-level `function` declarations,
+ *   `window.x = ...`, undeclared assignments) stay in the sandbox; reads fall through to
+ *   the real window
+ * - `on*` handlers assigned on the sandboxed window become real listeners, removed
+ *   when the sandbox is disposed
+ * - `document.querySelector`, `querySelectorAll` and `getElementById` only see the
+ *   render target (or shadow root)
+ * - Scripts of the same target share the sandbox, so they can still talk to each other
+ *
+ * This isolates well-behaved content from each other; it is not a security boundary.
+ * Module and external scripts, event handler attributes and code run through `eval`
+ * or timers with string arguments still use the real globals.
+ *
+ * @module scriptSandbox
+ */
+
+import type { IScriptSandbox } from '../extras/types'
+
+/**
+ * Sandboxes by render target, created on first use.
+ */
+const sandboxes = new WeakMap<ParentNode, IScriptSandbox>()
+
+/**
+ * Get the sandbox of a render target, creating it if needed.
+ *
+ * @param root - The render target (host element or shadow root)
+ * @returns The target's sandbox
+ *
+ * @example
+ * ```ts
+ * await renderDirectly(container, html, { sandboxScripts: true });
+ * getScriptSandbox(container).window.config; // set by the content's `var config = ...`
+ * ```
+ */
+export function getScriptSandbox(root: ParentNode): IScriptSandbox {
+  let sandbox = sandboxes.get(root)
+  if (!sandbox) {
+    sandbox = createScriptSandbox(root)
+    sandboxes.set(root, sandbox)
+  }
+  return sandbox
+}
+
+/**
+ * Dispose the sandbox of a render target, if it has one: its globals are dropped and
+ * the event handlers its scripts assigned are removed.
+ *
+ * @param root - The render target (host element or shadow root)
+ *
+ * @example
+ * ```ts
+ * clearElement(container); // disposes the container's sandbox
+ * ```
+ */
+export function disposeScriptSandbox(root: ParentNode): void {
+  sandboxes.get(root)?.dispose()
+  sandboxes.delete(root)
+}
+
+/**
+ * Find the names of the top-level function declarations of a script, which the sandbox
+ * wrapper turns into local functions; the renderer copies them onto the sandboxed window
+ * so the following scripts can call them. Braces, strings, comments and template literals
+ * are skipped; named function expressions at the top level are found as well, so callers
+ * have to check that a name is defined.
+ *
+ * @param code - The script's code
+ * @returns The declared names, in order
+ *
+ * @example
+ * ```ts
+ * findTopLevelFunctions('function init() { function inner() {} }'); // ['init']
+ * ```
+ */
+export function findTopLevelFunctions(code: string): string[] {
+  const names: string[] = []
+  const declaration = /function(?:\s*\*\s*|\s+)([A-Za-z_$][\w$]*)\s*\(/y
+  let depth = 0
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i]!
+    if (char === '/' && code[i + 1] === '/') {
+      i = code.indexOf('\n', i)
+      if (i === -1) break
+    } else if (char === '/' && code[i + 1] === '*') {
+      i = code.indexOf('*/', i + 2) + 1
+      if (i === 0) break
+    } else if (char === '"' || char === "'" || char === '`') {
+      for (i++; i < code.length && code[i] !== char; i++) {
+        if (code[i] === '\\') i++
+      }
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}') {
+      depth--
+    } else if (depth === 0 && char === 'f' && !/[\w$]/.test(code[i - 1] ?? '')) {
+      declaration.lastIndex = i
+      const match = declaration.exec(code)
+      if (match) names.push(match[1]!)
+    }
+  }
+  return names
+}
+
+/**
+ * Create the proxied window and document of a render target.
+ */
+function createScriptSandbox(root: ParentNode): IScriptSandbox {
+  // Globals of the sandbox; also the proxy target, so no proxy invariant involves the real window
+  const scope: Record<PropertyKey, unknown> = Object.create(null)
+  // Real-window functions bound to the window, so `setTimeout(...)` keeps working
+  const boundFunctions = new Map<PropertyKey, [original: unknown, bound: unknown]>()
+  // Listeners standing in for `on*` handlers, by event type
+  const handlers = new Map<string, EventListener>()
+
+  const sandboxWindow = new Proxy(scope, {
+    // Every identifier resolves through the sandbox (see the `with` block of bindSandboxScope),
+    // except the `root` parameter of the wrapper
+    has: (_target, key) => key !== 'root',
+    get(_target, key) {
+      if (key in scope) return scope[key]
+      if (key === 'window' || key === 'self' || key === 'globalThis') return sandboxWindow
+      if (key === 'document') return sandboxDocument
+
+      const value = Reflect.get(window, key)
+      // Constructors (Object, Promise, ...) must stay unbound
+      if (typeof value !== 'function' || typeof key !== 'string' || !/^[a-z]/.test(key)) {
+        return value
+      }
+      const cached = boundFunctions.get(key)
+      if (cached && cached[0] === value) return cached[1]
+      const bound = value.bind(window)
+      boundFunctions.set(key, [value, bound])
+      return bound
+    },
+    set(_target, key, value) {
+      if (typeof key === 'string' && key.startsWith('on') && key in window) {
+        const type = key.slice(2)
+        const previous = handlers.get(type)
+        if (previous) window.removeEventListener(type, previous)
+        handlers.delete(type)
+        if (typeof value === 'function') {
+          const listener: EventListener = (event) => value.call(sandboxWindow, event)
+          handlers.set(type, listener)
+          window.addEventListener(type, listener)
+        }
+      }
+      scope[key] = value
+      return true
+    },
+    deleteProperty(_target, key) {
+      return delete scope[key]
+    },
+  }) as unknown as Window & typeof globalThis
+
+  const scopedMembers = new Map<PropertyKey, unknown>([
+    ['querySelector', (selectors: string) => root.querySelector(selectors)],
+    ['querySelectorAll', (selectors: string) => root.querySelectorAll(selectors)],
+    // Elements have no getElementById of their own
+    [
+      'getElementById',
+      (id: string) =>
+        Array.from(root.querySelectorAll('[id]')).find((element) => element.id === id) ?? null,
+    ],
+    ['defaultView', sandboxWindow],
+  ])
+
+  const sandboxDocument = new Proxy(document, {
+    get(target, key) {
+      if (scopedMembers.has(key)) return scopedMembers.get(key)
+      const value = Reflect.get(target, key)
+      return typeof value === 'function' ? value.bind(target) : value
+    },
+    set(target, key, value) {
+      return Reflect.set(target, key, value)
+    },
+  })
+
+  return {
+    window: sandboxWindow,
+    document: sandboxDocument,
+    root,
+    dispose() {
+      handlers.forEach((listener, type) => window.removeEventListener(type, listener))
+      handlers.clear()
+      boundFunctions.clear()
+      Reflect.ownKeys(scope).forEach((key) => delete scope[key])
+    },
+  }
+}
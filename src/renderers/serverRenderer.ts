@@ -0,0 +1,219 @@
+/**
+ * Server-Side Rendering Support
+ *
+ * During server-side rendering (e.g. `renderToString` or Nuxt) there is no DOM to
+ * render into, so the host element would be sent empty and the content would only
+ * appear once the client has mounted. This module renders the content into the
+ * server string instead, and helps the client pick it up without rendering again.
+ *
+ * Key Features:
+ * - String-only; works without a DOM
+ * - Direct mode: the HTML is emitted as the host's content
+ * - Shadow mode: the HTML is emitted as a Declarative Shadow DOM
+ *   `<template shadowrootmode="open">`
+ * - Executable scripts are emitted inert (deferred) and only run once the client hydrates
+ * - Styles carry the page's CSP nonce
+ * - A marker comment tells the client which content the server rendered, so stale
+ *   output is rendered again instead of being hydrated
+ *
+ * Iframe mode, sanitized content and closed shadow roots are rendered on the client only.
+ *
+ * @module serverRenderer
+ */
+
+import { hashString, parseHtmlFragment } from '../extras/utils'
+import { hasUrlRewriting } from '../extras/urlRewriter'
+import { toTrustedScript, writeSink } from '../extras/contentSecurity'
+import { RenderMode } from '../extras/types'
+import type { IContentSecurityOptions, IServerRenderOptions } from '../extras/types'
+
+/**
+ * Prefix of the marker comment at the start of server-rendered host content.
+ */
+const MARKER_PREFIX = 'html-renderer-ssr:'
+
+/**
+ * Type given to executable scripts on the server, so the browser doesn't run them.
+ */
+const DEFERRED_SCRIPT_TYPE = 'text/x-html-renderer-deferred'
+
+/**
+ * Attribute holding the original `type` of a deferred script.
+ */
+const ORIGINAL_TYPE_ATTR = 'data-html-renderer-type'
+
+/**
+ * Opening script tags, allowing `>` inside quoted attribute values.
+ */
+const SCRIPT_TAG_PATTERN = /<script\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi
+
+/**
+ * The `type` attribute within the attributes of a script tag.
+ */
+const TYPE_ATTR_PATTERN = /\stype\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+)/i
+
+/**
+ * Opening style tags, or whole script elements (whose text is left as it is).
+ */
+const STYLE_TAG_PATTERN = /<script\b[\s\S]*?<\/script\s*>|<style\b((?:[^>"']|"[^"]*"|'[^']*')*)>/gi
+
+/**
+ * The `nonce` attribute within the attributes of a style tag.
+ */
+const NONCE_ATTR_PATTERN = /\snonce(?=[\s=/]|$)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?/i
+
+/**
+ * Whether a script type is run by the browser (classic or module scripts).
+ */
+function isExecutableType(type: string): boolean {
+  const value = type
+    .replace(/^["']|["']$/g, '')
+    .trim()
+    .toLowerCase()
+  return !value || value === 'module' || /^(text|application)\/(x-)?(java|ecma)script$/.test(value)
+}
+
+/**
+ * Make the executable scripts of an HTML string inert by changing their type.
+ * Data scripts (e.g. `application/ld+json`) are kept as they are.
+ */
+function deferScripts(html: string): string {
+  return html.replace(SCRIPT_TAG_PATTERN, (tag, attrs: string) => {
+    const typeMatch = TYPE_ATTR_PATTERN.exec(attrs)
+    if (typeMatch && !isExecutableType(typeMatch[1]!)) return tag
+
+    const rest = typeMatch ? attrs.replace(typeMatch[0], '') : attrs
+    const original = typeMatch ? ` ${ORIGINAL_TYPE_ATTR}=${typeMatch[1]}` : ''
+    return `<script type="${DEFERRED_SCRIPT_TYPE}"${original}${rest}>`
+  })
+}
+
+/**
+ * Set the page's nonce on the style tags of an HTML string, replacing their own.
+ */
+function applyServerStyleNonce(html: string, nonce: string | undefined): string {
+  if (!nonce) return html
+  const value = nonce.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+  return html.replace(STYLE_TAG_PATTERN, (tag, attrs: string | undefined) =>
+    attrs === undefined ? tag : `<style nonce="${value}"${attrs.replace(NONCE_ATTR_PATTERN, '')}>`,
+  )
+}
+
+/**
+ * Get the marker comment text identifying server-rendered content.
+ */
+function getMarkerText(html: string, mode: RenderMode): string {
+  return `${MARKER_PREFIX}${hashString(`${mode}\n${html}`)}`
+}
+
+/**
+ * Render HTML content into the host element's server-side markup.
+ *
+ * In direct mode the content is returned as it is; in shadow mode it is wrapped
+ * in a declarative shadow root. Executable scripts are made inert in both modes, and
+ * `<style>` elements get the `nonce`. The result starts with a marker comment that findServerMarker recognizes.
+ *
+ * Inside a declarative shadow root the parser drops the `<html>`, `<head>` and
+ * `<body>` tags; hydrateShadowRoot restores them on the client. Closed roots and
+ * roots with manual slot assignment, which declarative shadow roots can't express,
+ * are rendered on the client only.
+ *
+ * @param html - The HTML string to render
+ * @param mode - The rendering mode
+ * @param options - Sanitization, URL rewriting, shadow root and nonce options of the client render
+ * @returns The host's inner HTML, or an empty string for content rendered on the client only
+ *
+ * @example
+ * ```ts
+ * renderServerHtml('<p>Hi</p><script>init()</script>', RenderMode.Direct);
+ * // '<!--html-renderer-ssr:…--><p>Hi</p><script type="text/x-html-renderer-deferred">init()</script>'
+ * ```
+ */
+export function renderServerHtml(
+  html: string,
+  mode: RenderMode,
+  options: IServerRenderOptions = {},
+): string {
+  const { sanitize = false, shadowRootInit = {}, nonce } = options
+  // Sanitizing and URL rewriting work on a parsed tree, which only the client has
+  if (sanitize || hasUrlRewriting(options) || mode === RenderMode.Iframe) return ''
+
+  const marker = `<!--${getMarkerText(html, mode)}-->`
+  const content = deferScripts(applyServerStyleNonce(html, nonce))
+  if (mode !== RenderMode.Shadow) return marker + content
+
+  // A declarative root would be attached with the wrong options, and can't be re-attached
+  if (shadowRootInit.mode === 'closed' || shadowRootInit.slotAssignment === 'manual') return ''
+  const attrs = [
+    'shadowrootmode="open"',
+    shadowRootInit.delegatesFocus && 'shadowrootdelegatesfocus',
+    shadowRootInit.serializable && 'shadowrootserializable',
+  ].filter(Boolean)
+  return `${marker}<template ${attrs.join(' ')}>${content}</template>`
+}
+
+/**
+ * Find the marker comment of server-rendered content on a host element.
+ *
+ * @param host - The host element
+ * @param html - The HTML the client is about to render
+ * @param mode - The mode the client is about to render in
+ * @returns The marker if the server rendered exactly this content, otherwise null
+ *
+ * @example
+ * ```ts
+ * const marker = findServerMarker(host, html, RenderMode.Direct);
+ * if (marker) {
+ *   marker.remove();
+ *   await hydrateDirectly(host);
+ * }
+ * ```
+ */
+export function findServerMarker(host: Element, html: string, mode: RenderMode): Comment | null {
+  const first = host.firstChild
+  return first?.nodeType === Node.COMMENT_NODE &&
+    (first as Comment).data === getMarkerText(html, mode)
+    ? (first as Comment)
+    : null
+}
+
+/**
+ * Give the scripts deferred by renderServerHtml their original type back.
+ *
+ * Each script is replaced with an inert copy carrying its original type, since a
+ * parsed script would run as soon as it is moved once its type is executable. The
+ * copies have to be recreated to run, e.g. with extractScriptsWithPlaceholders.
+ *
+ * @param root - The server-rendered content
+ * @param options - The `trustedTypes` option, for the scripts' text
+ * @returns The restored scripts, in tree order
+ *
+ * @example
+ * ```ts
+ * const restored = new Set(restoreDeferredScripts(host));
+ * const metas = extractScriptsWithPlaceholders(host, (script) => restored.has(script));
+ * ```
+ */
+export function restoreDeferredScripts(
+  root: ParentNode,
+  options: IContentSecurityOptions = {},
+): HTMLScriptElement[] {
+  const scripts = root.querySelectorAll(`script[type="${DEFERRED_SCRIPT_TYPE}"]`)
+  return Array.from(scripts, (script) => {
+    // Scripts parsed from a fragment never run on their own; the sanitizer mustn't see it
+    const restored = parseHtmlFragment('<script></script>', {
+      trustedTypes: options.trustedTypes,
+    }).firstChild as HTMLScriptElement
+    for (const attr of Array.from(script.attributes)) {
+      if (attr.name === 'type' || attr.name === ORIGINAL_TYPE_ATTR) continue
+      restored.setAttribute(attr.name, attr.value)
+    }
+    const type = script.getAttribute(ORIGINAL_TYPE_ATTR)
+    if (type !== null) restored.setAttribute('type', type)
+    writeSink('script text', () => {
+      restored.textContent = toTrustedScript(script.textContent ?? '', options)
+    })
+    script.replaceWith(restored)
+    return restored
+  })
+}
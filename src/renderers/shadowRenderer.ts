@@ -7,133 +7,250 @@
  * Key Features:
  * - Style isolation using Shadow DOM
  * - Preserves complete HTML structure (html, head, body tags)
- * - Extracts @font-face rules and injects into main document
- * - No script execution (by design)
+ * - Hoists @font-face and other opted-in global at-rules into the main document (see
+ *   globalAtRules; reference-counted across renderer instances, released with releaseGlobalAtRules)
+ * - Optional sharing of stylesheets between shadow roots through `adoptedStyleSheets`
+ *   (see styleSheets)
+ * - No script execution by default; opt-in execution scoped to the shadow root
+ * - Optional `morph` update strategy that patches the existing shadow tree in place
+ * - Optional URL resolution and rewriting (`baseUrl`, `rewriteUrl`; see urlRewriter)
+ * - Hydration of server-rendered declarative shadow roots (see serverRenderer)
  *
  * @module shadowRenderer
  */
 
-import { normalizeHtml } from '../extras/utils'
+import { parseHtmlDocument } from '../extras/utils'
+import { applyStyleNonce } from '../extras/contentSecurity'
+import { morphChildren } from '../extras/morph'
+import { sanitizeTree } from '../extras/sanitizer'
+import { rewriteTreeUrls } from '../extras/urlRewriter'
+import type { IShadowRenderOptions, IShadowRenderResult, ITrustedHTML } from '../extras/types'
+import {
+  executeScripts,
+  extractPendingScripts,
+  extractScriptsWithPlaceholders,
+} from './directRenderer'
+import { hoistGlobalAtRules } from './globalAtRules'
+import { adoptDocumentStyleSheets, releaseAdoptedStyleSheets } from './styleSheets'
+import { restoreDeferredScripts } from './serverRenderer'
+import { disposeScriptSandbox } from './scriptSandbox'
+import { disposeSideEffects } from './sideEffects'
 
 /**
- * Extract @font-face rules from style elements and inject into main document.
+ * Render HTML content into a Shadow Root with style isolation.
+ *
+ * This function:
+ * 1. Parses the HTML using DOMParser to preserve all structural tags
+ * 2. Sanitizes the parsed document (if enabled) and rewrites its URLs (with `baseUrl`
+ *    or `rewriteUrl`)
+ * 3. Hoists @font-face rules (and the opted-in `hoistAtRules`) into the main document
+ * 4. Moves stylesheets into `adoptedStyleSheets` (only with `adoptStyleSheets` or `hostStyleSheets`)
+ * 5. Imports and appends the entire HTML structure to the shadow root
+ * 6. Executes scripts inside the shadow tree (only with `executeScripts: true`)
  *
- * Shadow DOM has limitations with @font-face: fonts declared inside shadow trees
- * may not download properly. This function extracts @font-face rules and injects
- * them into the main document's <head> so fonts load at document level.
+ * The rendered content is completely isolated from the parent document's styles,
+ * but can still access fonts declared at the document level.
  *
- * The extraction uses brace-counting to properly handle nested braces and
- * multi-line declarations within @font-face blocks.
+ * With `updateStrategy: 'morph'` the existing shadow tree is patched in place
+ * instead of being cleared, preserving focus, scroll position and form state.
  *
- * @param doc - The parsed document containing style elements
- * @param styleElementId - ID for the injected style element (default: "shadow-dom-fonts")
+ * With `executeScripts: true`, scripts are recreated inside the shadow tree using
+ * the direct renderer's ordering (sequential, async, defer, module) and script
+ * policy. Inline scripts get a `root` constant bound to the shadow root.
+ *
+ * @param shadowRoot - The shadow root to render into
+ * @param html - The HTML string to render
+ * @param options - Render options (update strategy, sanitization, script execution)
+ * @returns The @font-face rules registered for the shadow root and promises for font loading,
+ *   stylesheet adoption and script completion
  *
  * @example
  * ```ts
- * const parser = new DOMParser();
- * const doc = parser.parseFromString(html, "text/html");
- * extractAndInjectFontFaces(doc);
+ * const host = document.createElement('div');
+ * const shadowRoot = host.attachShadow({ mode: 'open' });
+ * renderIntoShadowRoot(shadowRoot, '<html><body>Content</body></html>');
+ *
+ * // With scripts scoped to the shadow root
+ * const { scripts } = renderIntoShadowRoot(shadowRoot, html, { executeScripts: true });
+ * await scripts;
  * ```
  */
-export function extractAndInjectFontFaces(
-  doc: Document,
-  styleElementId: string = 'shadow-dom-fonts',
-): void {
-  const styleElements = doc.querySelectorAll('style')
-  const fontFaceRules: string[] = []
-
-  styleElements.forEach((styleEl) => {
-    const cssText = styleEl.textContent || ''
-
-    // Match @font-face blocks with proper brace counting
-    // This handles nested braces and multi-line declarations
-    let pos = 0
-    while (pos < cssText.length) {
-      const fontFaceStart = cssText.indexOf('@font-face', pos)
-      if (fontFaceStart === -1) break
-
-      const braceStart = cssText.indexOf('{', fontFaceStart)
-      if (braceStart === -1) break
-
-      // Count braces to find the matching closing brace
-      let braceCount = 1
-      let braceEnd = braceStart + 1
-      while (braceEnd < cssText.length && braceCount > 0) {
-        if (cssText[braceEnd] === '{') braceCount++
-        if (cssText[braceEnd] === '}') braceCount--
-        braceEnd++
-      }
-
-      if (braceCount === 0) {
-        const fontFaceRule = cssText.substring(fontFaceStart, braceEnd).trim()
-        fontFaceRules.push(fontFaceRule)
-      }
-
-      pos = braceEnd
+export function renderIntoShadowRoot(
+  shadowRoot: ShadowRoot,
+  html: string | ITrustedHTML,
+  options: IShadowRenderOptions = {},
+): IShadowRenderResult {
+  const {
+    updateStrategy = 'replace',
+    sanitize = false,
+    executeScripts: runScripts = false,
+    fonts,
+    hoistAtRules,
+    adoptStyleSheets,
+    hostStyleSheets,
+    rewriteUrl,
+    nonce,
+  } = options
+
+  if (updateStrategy === 'replace') {
+    // Clear existing content
+    while (shadowRoot.firstChild) {
+      shadowRoot.removeChild(shadowRoot.firstChild)
     }
+  }
+
+  // Parse HTML using DOMParser to preserve structural tags like <html>, <body>, <head>
+  const doc = parseHtmlDocument(html, options)
+
+  // The DOMParser document is inert, so it can be sanitized before anything is imported
+  if (sanitize) {
+    sanitizeTree(doc, sanitize)
+  }
+  // Rewritten before anything reads them, so hoisted @font-face rules get the new URLs too
+  // Scripts load from the content's <base href>, if it has one
+  const baseUrl = rewriteTreeUrls(doc, options)
+
+  // Extract and inject @font-face (and other global) at-rules into main document
+  // This ensures fonts are loaded at document level and available to shadow DOM.
+  // The shadow root owns the rules until releaseGlobalAtRules(shadowRoot) is called.
+  const { fontFaces, loaded: fontsReady } = hoistGlobalAtRules(doc, shadowRoot, {
+    ...fonts,
+    atRules: hoistAtRules,
+    rewriteUrl,
+    nonce,
+  })
+
+  // Share the content's stylesheets (and the host's) through adoptedStyleSheets.
+  // Runs after the at-rules were read, since it removes <style> elements.
+  const styleSheets = adoptDocumentStyleSheets(shadowRoot, doc, {
+    adoptStyleSheets,
+    hostStyleSheets,
   })
 
-  // Inject font-face rules into main document if any were found
-  if (fontFaceRules.length > 0) {
-    let fontStyleElement = document.getElementById(styleElementId) as HTMLStyleElement
+  // Replace scripts with placeholders before import so they can be recreated in order
+  let scriptMetas =
+    runScripts && updateStrategy === 'replace' ? extractScriptsWithPlaceholders(doc) : []
 
-    if (!fontStyleElement) {
-      fontStyleElement = document.createElement('style')
-      fontStyleElement.id = styleElementId
-      document.head.appendChild(fontStyleElement)
+  // Under a strict CSP, the content's (and the host sheets' fallback) styles need the nonce
+  applyStyleNonce(doc, nonce)
+
+  // Import the entire documentElement (html tag and all its contents)
+  // This preserves the complete HTML structure including html, head, and body tags
+  const importedNode = document.importNode(doc.documentElement, true)
+
+  if (updateStrategy === 'morph') {
+    // Patch the existing tree so unchanged nodes keep their state
+    const frag = document.createDocumentFragment()
+    frag.appendChild(importedNode)
+    morphChildren(shadowRoot, frag)
+    if (runScripts) {
+      // Unchanged scripts were kept; only new or changed ones are executed
+      scriptMetas = extractPendingScripts(shadowRoot)
     }
+  } else {
+    // Append directly to shadow root without wrapper or scaler
+    shadowRoot.appendChild(importedNode)
+  }
 
-    // Append new font-face rules (avoiding duplicates by checking existing content)
-    const existingContent = fontStyleElement.textContent || ''
-    fontFaceRules.forEach((rule) => {
-      if (!existingContent.includes(rule)) {
-        fontStyleElement.textContent += '\n' + rule
-      }
-    })
+  return {
+    fontFaces,
+    fontsReady,
+    styleSheets,
+    scripts: runScripts
+      ? executeScripts(shadowRoot, scriptMetas, { ...options, baseUrl })
+      : Promise.resolve(),
   }
 }
 
 /**
- * Render HTML content into a Shadow Root with style isolation.
+ * Put server-rendered content back into `<html>`, `<head>` and `<body>` elements.
  *
- * This function:
- * 1. Parses the HTML using DOMParser to preserve all structural tags
- * 2. Extracts @font-face rules and injects them into the main document
- * 3. Imports and appends the entire HTML structure to the shadow root
+ * A declarative shadow root loses these tags when it is parsed: its children are the
+ * head's contents followed by the body's. They are split again by the number of
+ * elements in the head of the parsed HTML.
+ */
+function restoreDocumentStructure(shadowRoot: ShadowRoot, doc: Document): void {
+  if (Array.from(shadowRoot.children).some((el) => el.localName === 'html')) return
+
+  const htmlEl = document.importNode(doc.documentElement, false)
+  const head = document.importNode(doc.head, false)
+  const body = document.importNode(doc.body, false)
+
+  let headElements = doc.head.childElementCount
+  while (shadowRoot.firstChild && headElements > 0) {
+    if (shadowRoot.firstChild.nodeType === Node.ELEMENT_NODE) headElements--
+    head.appendChild(shadowRoot.firstChild)
+  }
+  while (shadowRoot.firstChild) {
+    body.appendChild(shadowRoot.firstChild)
+  }
+
+  htmlEl.append(head, body)
+  shadowRoot.appendChild(htmlEl)
+}
+
+/**
+ * Hydrate a declarative shadow root that was rendered on the server (see renderServerHtml).
  *
- * The rendered content is completely isolated from the parent document's styles,
- * but can still access fonts declared at the document level.
+ * The server-rendered nodes are kept (only regrouped into `<html>`, `<head>` and
+ * `<body>`), so nothing is rendered again. The client-only steps of
+ * renderIntoShadowRoot still run: global at-rules are hoisted, stylesheets are
+ * adopted and, with `executeScripts: true`, the scripts the server deferred run.
  *
- * @param shadowRoot - The shadow root to render into
- * @param html - The HTML string to render
+ * @param shadowRoot - The declarative shadow root holding the server-rendered content
+ * @param html - The HTML string the server rendered
+ * @param options - Render options; `updateStrategy` and `sanitize` don't apply
+ * @returns The same result as renderIntoShadowRoot
  *
  * @example
  * ```ts
- * const host = document.createElement('div');
- * const shadowRoot = host.attachShadow({ mode: 'open' });
- * renderIntoShadowRoot(shadowRoot, '<html><body>Content</body></html>');
+ * const marker = findServerMarker(host, html, RenderMode.Shadow);
+ * if (marker && host.shadowRoot) {
+ *   marker.remove();
+ *   const { scripts } = hydrateShadowRoot(host.shadowRoot, html, { executeScripts: true });
+ *   await scripts;
+ * }
  * ```
  */
-export function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string): void {
-  // Clear existing content
-  while (shadowRoot.firstChild) {
-    shadowRoot.removeChild(shadowRoot.firstChild)
-  }
+export function hydrateShadowRoot(
+  shadowRoot: ShadowRoot,
+  html: string | ITrustedHTML,
+  options: IShadowRenderOptions = {},
+): IShadowRenderResult {
+  const {
+    executeScripts: runScripts = false,
+    fonts,
+    hoistAtRules,
+    adoptStyleSheets,
+    hostStyleSheets,
+    nonce,
+  } = options
 
-  // Parse HTML using DOMParser to preserve structural tags like <html>, <body>, <head>
-  const parser = new DOMParser()
-  const doc = parser.parseFromString(normalizeHtml(html), 'text/html')
+  // The parsed HTML supplies the dropped structure and the at-rules of linked stylesheets
+  const doc = parseHtmlDocument(html, options)
+  restoreDocumentStructure(shadowRoot, doc)
+  const deferred = new Set(restoreDeferredScripts(shadowRoot, options))
 
-  // Extract and inject @font-face rules into main document
-  // This ensures fonts are loaded at document level and available to shadow DOM
-  extractAndInjectFontFaces(doc)
+  const { fontFaces, loaded: fontsReady } = hoistGlobalAtRules(doc, shadowRoot, {
+    ...fonts,
+    atRules: hoistAtRules,
+    nonce,
+  })
+  const styleSheets = adoptDocumentStyleSheets(shadowRoot, shadowRoot, {
+    adoptStyleSheets,
+    hostStyleSheets,
+  })
 
-  // Import the entire documentElement (html tag and all its contents)
-  // This preserves the complete HTML structure including html, head, and body tags
-  const importedNode = document.importNode(doc.documentElement, true)
+  const scriptMetas = runScripts
+    ? extractScriptsWithPlaceholders(shadowRoot, (script) => deferred.has(script))
+    : []
 
-  // Append directly to shadow root without wrapper or scaler
-  shadowRoot.appendChild(importedNode)
+  return {
+    fontFaces,
+    fontsReady,
+    styleSheets,
+    scripts: runScripts ? executeScripts(shadowRoot, scriptMetas, options) : Promise.resolve(),
+  }
 }
 
 /**
@@ -141,7 +258,8 @@ export function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string): void
  *
  * This is a utility function for cleanup operations. It uses a while loop
  * with removeChild for deterministic cleanup without touching the shadow
- * root element itself.
+ * root element itself. The side effects of its scripts are cancelled first (see
+ * sideEffects), and its script sandbox is disposed.
  *
  * @param shadowRoot - The shadow root to clear
  *
@@ -151,7 +269,10 @@ export function renderIntoShadowRoot(shadowRoot: ShadowRoot, html: string): void
  * ```
  */
 export function clearShadowRoot(shadowRoot: ShadowRoot): void {
+  disposeSideEffects(shadowRoot)
   while (shadowRoot.firstChild) {
     shadowRoot.removeChild(shadowRoot.firstChild)
   }
+  releaseAdoptedStyleSheets(shadowRoot)
+  disposeScriptSandbox(shadowRoot)
 }
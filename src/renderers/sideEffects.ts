@@ -0,0 +1,379 @@
+/**
+ * Script Side Effects
+ *
+ * Removing rendered content doesn't stop what its scripts started: timers, animation
+ * frame loops, listeners on `window` or `document` and mutation observers keep running
+ * after the component is gone. With `trackSideEffects`, the direct renderer runs scripts
+ * in a tracking context per render target; the APIs below record what is created in it,
+ * and disposeSideEffects cancels all of it when the target is cleared.
+ *
+ * Key Features:
+ * - `setTimeout`, `setInterval`, `requestAnimationFrame`, `addEventListener` and
+ *   `MutationObserver` are wrapped while any target has tracked scripts, and restored
+ *   once none has; pages that don't opt in keep the original APIs
+ * - Callbacks registered in a context run in it as well, so timers started by timers,
+ *   listeners, frames and observers are tracked too
+ * - Before cancelling, an `html-renderer:unmount` event is dispatched on `window`;
+ *   listeners a target's scripts registered for it only receive their own target's event
+ *
+ * Classic scripts are tracked while they execute: inline ones on insertion, external
+ * ones through `document.currentScript`. Module scripts and promise continuations
+ * (`await`, `.then`) run outside the context and are not tracked.
+ *
+ * @module sideEffects
+ */
+
+/**
+ * Event dispatched on `window` before the side effects of a render target are cancelled.
+ * Its `detail.root` is the target.
+ */
+export const UNMOUNT_EVENT = 'html-renderer:unmount'
+
+/**
+ * What the scripts of one render target have created.
+ */
+interface ISideEffectTracker {
+  root: ParentNode
+  timers: Set<number>
+  frames: Set<number>
+  listeners: Set<ITrackedListener>
+  observers: Set<MutationObserver>
+  disposed: boolean
+}
+
+/**
+ * A listener registered in a tracking context, and the wrapper that was registered instead.
+ */
+interface ITrackedListener {
+  tracker: ISideEffectTracker
+  target: EventTarget
+  listener: EventListenerOrEventListenerObject
+  type: string
+  capture: boolean
+  wrapper: EventListener
+}
+
+/**
+ * The DOM signatures of the timer functions (without the overloads Node's typings add).
+ */
+type ScheduleTimer = (handler: TimerHandler, timeout?: number, ...args: unknown[]) => number
+type ClearTimer = (id?: number) => void
+
+/**
+ * The original APIs, while the wrapped ones are installed.
+ */
+interface IOriginalApis {
+  setTimeout: ScheduleTimer
+  setInterval: ScheduleTimer
+  clearTimeout: ClearTimer
+  clearInterval: ClearTimer
+  requestAnimationFrame?: typeof window.requestAnimationFrame
+  cancelAnimationFrame?: typeof window.cancelAnimationFrame
+  MutationObserver: typeof window.MutationObserver
+  addEventListener: EventTarget['addEventListener']
+  removeEventListener: EventTarget['removeEventListener']
+}
+
+const trackers = new WeakMap<ParentNode, ISideEffectTracker>()
+let trackerCount = 0
+
+/**
+ * External scripts by the tracker of their target, for `document.currentScript`.
+ */
+const scriptTrackers = new WeakMap<Element, ISideEffectTracker>()
+
+/**
+ * Tracked registrations by listener, to find the wrapper on removeEventListener.
+ */
+const trackedListeners = new WeakMap<EventListenerOrEventListenerObject, ITrackedListener[]>()
+
+let activeTracker: ISideEffectTracker | undefined
+let originals: IOriginalApis | undefined
+let installed: Partial<IOriginalApis> = {}
+
+/**
+ * Run a function in the tracking context of a render target, e.g. the insertion of an
+ * inline script (which executes it).
+ *
+ * @param root - The render target (host element or shadow root)
+ * @param fn - The function to run
+ *
+ * @example
+ * ```ts
+ * runWithSideEffectTracking(container, () => placeholder.replaceWith(script));
+ * ```
+ */
+export function runWithSideEffectTracking(root: ParentNode, fn: () => void): void {
+  runInContext(getTracker(root), fn)
+}
+
+/**
+ * Track what an external script creates while it executes.
+ *
+ * @param root - The render target (host element or shadow root)
+ * @param script - The script element, before it is inserted
+ *
+ * @example
+ * ```ts
+ * trackScriptSideEffects(container, script);
+ * placeholder.replaceWith(script);
+ * ```
+ */
+export function trackScriptSideEffects(root: ParentNode, script: HTMLScriptElement): void {
+  scriptTrackers.set(script, getTracker(root))
+}
+
+/**
+ * Cancel everything the scripts of a render target created: pending timers and
+ * animation frames are cancelled, listeners removed and observers disconnected.
+ * Their `html-renderer:unmount` listeners are called first, for custom cleanup.
+ *
+ * @param root - The render target (host element or shadow root)
+ *
+ * @example
+ * ```ts
+ * clearElement(container); // disposes the container's side effects
+ * ```
+ */
+export function disposeSideEffects(root: ParentNode): void {
+  const tracker = trackers.get(root)
+  if (!tracker || !originals) return
+  trackers.delete(root)
+
+  // Runs while the tracker is still active, so cleanup code can clear its own timers
+  window.dispatchEvent(new CustomEvent(UNMOUNT_EVENT, { detail: { root } }))
+
+  tracker.disposed = true
+  tracker.timers.forEach((id) => originals!.clearTimeout.call(window, id))
+  tracker.frames.forEach((id) => originals!.cancelAnimationFrame?.call(window, id))
+  tracker.listeners.forEach((entry) => {
+    originals!.removeEventListener.call(entry.target, entry.type, entry.wrapper, entry.capture)
+    forgetListener(entry)
+  })
+  tracker.observers.forEach((observer) => observer.disconnect())
+  tracker.timers.clear()
+  tracker.frames.clear()
+  tracker.listeners.clear()
+  tracker.observers.clear()
+
+  if (--trackerCount === 0) {
+    uninstall()
+  }
+}
+
+/**
+ * Get the tracker of a render target, creating it (and installing the wrapped APIs) if needed.
+ */
+function getTracker(root: ParentNode): ISideEffectTracker {
+  let tracker = trackers.get(root)
+  if (!tracker) {
+    tracker = {
+      root,
+      timers: new Set(),
+      frames: new Set(),
+      listeners: new Set(),
+      observers: new Set(),
+      disposed: false,
+    }
+    trackers.set(root, tracker)
+    if (trackerCount++ === 0) {
+      install()
+    }
+  }
+  return tracker
+}
+
+/**
+ * The tracker of the code that is running, if it is tracked.
+ */
+function currentTracker(): ISideEffectTracker | undefined {
+  // The wrapped APIs may still be called while the window is torn down, without a document
+  const script = activeTracker ? null : globalThis.document?.currentScript
+  const tracker = activeTracker ?? (script ? scriptTrackers.get(script) : undefined)
+  return tracker && !tracker.disposed ? tracker : undefined
+}
+
+function runInContext<T>(tracker: ISideEffectTracker, fn: () => T): T {
+  const previous = activeTracker
+  activeTracker = tracker
+  try {
+    return fn()
+  } finally {
+    activeTracker = previous
+  }
+}
+
+function getCapture(options?: boolean | EventListenerOptions): boolean {
+  return typeof options === 'boolean' ? options : !!options?.capture
+}
+
+function forgetListener(entry: ITrackedListener): void {
+  const remaining = trackedListeners.get(entry.listener)?.filter((e) => e !== entry)
+  if (remaining?.length) {
+    trackedListeners.set(entry.listener, remaining)
+  } else {
+    trackedListeners.delete(entry.listener)
+  }
+}
+
+/**
+ * Listener methods are wrapped on EventTarget.prototype, to cover window, document and elements.
+ */
+function getApiOwner(name: string): Record<string, unknown> {
+  return name === 'addEventListener' || name === 'removeEventListener'
+    ? (EventTarget.prototype as any)
+    : (window as any)
+}
+
+/**
+ * Replace the tracked APIs with wrappers that record what tracked code creates.
+ */
+function install(): void {
+  const original: IOriginalApis = {
+    setTimeout: window.setTimeout as ScheduleTimer,
+    setInterval: window.setInterval as ScheduleTimer,
+    clearTimeout: window.clearTimeout as ClearTimer,
+    clearInterval: window.clearInterval as ClearTimer,
+    requestAnimationFrame: window.requestAnimationFrame,
+    cancelAnimationFrame: window.cancelAnimationFrame,
+    MutationObserver: window.MutationObserver,
+    addEventListener: EventTarget.prototype.addEventListener,
+    removeEventListener: EventTarget.prototype.removeEventListener,
+  }
+  originals = original
+
+  const wrapTimer =
+    (schedule: ScheduleTimer, once: boolean): ScheduleTimer =>
+    (handler, timeout, ...args) => {
+      const tracker = currentTracker()
+      if (!tracker || typeof handler !== 'function') {
+        const id = schedule.call(window, handler, timeout, ...args)
+        if (!tracker) return id
+        tracker.timers.add(id)
+        // Code strings can't be wrapped; a timer due right after this one forgets it
+        if (once) schedule.call(window, () => tracker.timers.delete(id), timeout)
+        return id
+      }
+      const id = schedule.call(
+        window,
+        (...callbackArgs: unknown[]) => {
+          if (once) tracker.timers.delete(id)
+          runInContext(tracker, () => handler(...callbackArgs))
+        },
+        timeout,
+        ...args,
+      )
+      tracker.timers.add(id)
+      return id
+    }
+  const clearTimer =
+    (clear: ClearTimer): ClearTimer =>
+    (id) => {
+      if (id !== undefined) currentTracker()?.timers.delete(id)
+      clear.call(window, id)
+    }
+
+  installed = {
+    setTimeout: wrapTimer(original.setTimeout, true),
+    setInterval: wrapTimer(original.setInterval, false),
+    clearTimeout: clearTimer(original.clearTimeout),
+    clearInterval: clearTimer(original.clearInterval),
+    MutationObserver: class extends original.MutationObserver {
+      constructor(callback: MutationCallback) {
+        const tracker = currentTracker()
+        super(
+          tracker
+            ? (records, observer) => runInContext(tracker, () => callback(records, observer))
+            : callback,
+        )
+        tracker?.observers.add(this)
+      }
+    },
+  }
+
+  const { requestAnimationFrame, cancelAnimationFrame } = original
+  if (requestAnimationFrame && cancelAnimationFrame) {
+    installed.requestAnimationFrame = (callback) => {
+      const tracker = currentTracker()
+      if (!tracker) return requestAnimationFrame.call(window, callback)
+      const id = requestAnimationFrame.call(window, (time) => {
+        tracker.frames.delete(id)
+        runInContext(tracker, () => callback(time))
+      })
+      tracker.frames.add(id)
+      return id
+    }
+    installed.cancelAnimationFrame = (id) => {
+      currentTracker()?.frames.delete(id)
+      cancelAnimationFrame.call(window, id)
+    }
+  }
+
+  installed.addEventListener = function (this: EventTarget, type, listener, options) {
+    const tracker = currentTracker()
+    if (!tracker || !listener) {
+      return original.addEventListener.call(this, type, listener, options)
+    }
+    const capture = getCapture(options)
+    const entries = trackedListeners.get(listener) ?? []
+    // Adding a registered listener again is a no-op, as it is without tracking
+    if (entries.some((e) => e.target === this && e.type === type && e.capture === capture)) return
+
+    // `once` is handled here, so the entry is dropped with the listener (and an unmount
+    // listener isn't used up by the event of another target)
+    const once = typeof options === 'object' && !!options.once
+    const wrapper = function (this: EventTarget, event: Event) {
+      // Scripts only hear about the unmount of their own target
+      if (type === UNMOUNT_EVENT && (event as CustomEvent).detail?.root !== tracker.root) return
+      if (once) {
+        forgetListener(entry)
+        tracker.listeners.delete(entry)
+        original.removeEventListener.call(entry.target, type, wrapper, capture)
+      }
+      return runInContext(tracker, () =>
+        typeof listener === 'function' ? listener.call(this, event) : listener.handleEvent(event),
+      )
+    }
+    const entry = { tracker, target: this, listener, type, capture, wrapper }
+    trackedListeners.set(listener, [...entries, entry])
+    tracker.listeners.add(entry)
+    original.addEventListener.call(
+      this,
+      type,
+      wrapper,
+      typeof options === 'object' ? { ...options, once: false } : options,
+    )
+  }
+  installed.removeEventListener = function (this: EventTarget, type, listener, options) {
+    const capture = getCapture(options)
+    const entries = listener ? trackedListeners.get(listener) : undefined
+    const entry = entries?.find(
+      (e) => e.target === this && e.type === type && e.capture === capture,
+    )
+    if (!listener || !entries || !entry) {
+      return original.removeEventListener.call(this, type, listener, options)
+    }
+    forgetListener(entry)
+    entry.tracker.listeners.delete(entry)
+    original.removeEventListener.call(this, type, entry.wrapper, options)
+  }
+
+  Object.entries(installed).forEach(([name, api]) => {
+    getApiOwner(name)[name] = api
+  })
+}
+
+/**
+ * Restore the original APIs, unless something else has replaced the wrappers since.
+ */
+function uninstall(): void {
+  if (!originals) return
+  Object.entries(installed).forEach(([name, api]) => {
+    const owner = getApiOwner(name)
+    if (owner[name] === api) {
+      owner[name] = originals![name as keyof IOriginalApis]
+    }
+  })
+  originals = undefined
+  installed = {}
+}
@@ -0,0 +1,383 @@
+/**
+ * Adopted Stylesheets for the Shadow DOM Renderer
+ *
+ * Rendering many shadow roots with the same CSS would otherwise parse (and, for
+ * `<link>` elements, fetch) that CSS once per root. This module converts the
+ * stylesheets of rendered content into constructable `CSSStyleSheet` objects that
+ * are shared between shadow roots through `adoptedStyleSheets`.
+ *
+ * Key Features:
+ * - `<style>` elements and same-origin `<link rel="stylesheet">` targets become
+ *   constructed sheets, cached by content hash
+ * - Linked stylesheets are fetched once per URL, for all renderer instances
+ * - Host-app sheets (e.g. design tokens) can be adopted into every shadow root
+ * - Falls back to regular `<style>` elements where `adoptedStyleSheets` isn't supported
+ * - Both caches keep the most recently used entries (see MAX_CACHED_SHEETS)
+ *
+ * Adopted sheets cascade after the stylesheets in the tree. To keep host sheets first
+ * and content sheets in document order, the content's sheets are adopted all or none:
+ * constructed sheets don't support `@import`, so if one of them uses it (or links to
+ * another origin), they all stay in the tree, with the host sheets before them.
+ *
+ * @module styleSheets
+ */
+
+import { hashString, resolveCssUrls } from '../extras/utils'
+import type { IAdoptedStyleSheetOptions } from '../extras/types'
+
+/**
+ * How many entries each cache keeps; the least recently used one is dropped first.
+ */
+const MAX_CACHED_SHEETS = 100
+
+/**
+ * Attribute holding the `rel` of a linked stylesheet while it is fetched, so the
+ * browser doesn't load it a second time.
+ */
+const PENDING_REL_ATTRIBUTE = 'data-html-renderer-rel'
+
+/**
+ * Stylesheet sources by absolute URL, once fetched. In order of use, least recent first.
+ */
+const stylesheetTexts = new Map<string, string>()
+
+/**
+ * In-flight stylesheet fetches by absolute URL, shared by all callers.
+ */
+const pendingFetches = new Map<string, Promise<string | null>>()
+
+/**
+ * Constructed sheets by content hash. In order of use, least recent first.
+ */
+const constructedSheets = new Map<
+  string,
+  { cssText: string; media: string; sheet: CSSStyleSheet }
+>()
+
+/**
+ * The latest adoption per shadow root. Linked stylesheets arriving after a newer
+ * render or a release are dropped.
+ */
+const adoptionTokens = new WeakMap<ShadowRoot, object>()
+
+/**
+ * A content stylesheet that can be adopted: a constructed sheet, or a linked
+ * stylesheet that is still to be fetched.
+ */
+type AdoptableSheet = CSSStyleSheet | { link: Element; href: string; media: string }
+
+/**
+ * Whether shadow roots support constructed, adopted stylesheets.
+ */
+export function supportsAdoptedStyleSheets(): boolean {
+  return (
+    typeof ShadowRoot === 'function' &&
+    'adoptedStyleSheets' in ShadowRoot.prototype &&
+    typeof CSSStyleSheet === 'function' &&
+    'replaceSync' in CSSStyleSheet.prototype
+  )
+}
+
+/**
+ * Fetch the source of a stylesheet, once per URL.
+ *
+ * Failed fetches (network errors, non-OK responses) resolve to null and are
+ * retried by the next caller.
+ *
+ * @param href - The absolute stylesheet URL
+ * @returns The stylesheet source, or null if it couldn't be fetched
+ *
+ * @example
+ * ```ts
+ * const cssText = await fetchStylesheetText('https://example.com/app.css');
+ * ```
+ */
+export function fetchStylesheetText(href: string): Promise<string | null> {
+  const cached = stylesheetTexts.get(href)
+  if (cached !== undefined) {
+    touchEntry(stylesheetTexts, href, cached)
+    return Promise.resolve(cached)
+  }
+
+  let pending = pendingFetches.get(href)
+  if (!pending) {
+    pending = (async () => {
+      try {
+        if (typeof fetch !== 'function') return null
+        const response = await fetch(href)
+        if (!response.ok) return null
+        const cssText = await response.text()
+        touchEntry(stylesheetTexts, href, cssText)
+        return cssText
+      } catch (e) {
+        console.debug('styleSheets: could not read linked stylesheet', e)
+        return null
+      } finally {
+        pendingFetches.delete(href)
+      }
+    })()
+    pendingFetches.set(href, pending)
+  }
+  return pending
+}
+
+/**
+ * Get the constructed sheet for some CSS, creating and caching it on first use.
+ *
+ * @param cssText - The CSS source
+ * @param media - The sheet's media query list (e.g. a `<style media>` value)
+ * @returns A sheet shared by every caller with the same CSS and media
+ *
+ * @example
+ * ```ts
+ * shadowRoot.adoptedStyleSheets = [getConstructedStyleSheet(':host { color: red }')];
+ * ```
+ */
+export function getConstructedStyleSheet(cssText: string, media = ''): CSSStyleSheet {
+  const key = hashString(`${media}\n${cssText}`)
+  const entry = constructedSheets.get(key)
+  if (entry && entry.cssText === cssText && entry.media === media) {
+    touchEntry(constructedSheets, key, entry)
+    return entry.sheet
+  }
+
+  const sheet = new CSSStyleSheet({ media })
+  sheet.replaceSync(cssText)
+  // On a hash collision the first entry keeps the slot
+  if (!entry) touchEntry(constructedSheets, key, { cssText, media, sheet })
+  return sheet
+}
+
+/**
+ * Store a cache entry as the most recently used one, dropping the least recently used
+ * entries beyond MAX_CACHED_SHEETS.
+ */
+function touchEntry<T>(cache: Map<string, T>, key: string, value: T): void {
+  cache.delete(key)
+  cache.set(key, value)
+  for (const oldest of cache.keys()) {
+    if (cache.size <= MAX_CACHED_SHEETS) break
+    cache.delete(oldest)
+  }
+}
+
+/**
+ * Clear the caches of fetched stylesheet sources and constructed sheets.
+ *
+ * Sheets already adopted by shadow roots stay in use; later renders fetch and
+ * construct fresh copies.
+ *
+ * @example
+ * ```ts
+ * // After deploying new CSS
+ * clearStyleSheetCache();
+ * ```
+ */
+export function clearStyleSheetCache(): void {
+  stylesheetTexts.clear()
+  constructedSheets.clear()
+}
+
+/**
+ * Get the CSS source of a host sheet, for environments without adoption.
+ */
+function getHostSheetText(sheet: CSSStyleSheet | string): string {
+  if (typeof sheet === 'string') return sheet
+  try {
+    return Array.from(sheet.cssRules, (rule) => rule.cssText).join('\n')
+  } catch {
+    // Rules of cross-origin sheets can't be read
+    return ''
+  }
+}
+
+/**
+ * Resolve a `<link>` element to its absolute URL if it can be adopted.
+ *
+ * @returns The URL, or null for cross-origin or invalid links
+ */
+function getAdoptableHref(link: Element): string | null {
+  try {
+    const url = new URL(link.getAttribute('href') || '', document.baseURI)
+    return url.origin === window.location.origin ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Convert a `<style>` or `<link>` element of the content into an adoptable sheet.
+ *
+ * @returns The sheet, or null if the element has to stay in the tree
+ */
+function getAdoptableSheet(el: Element): AdoptableSheet | null {
+  const media = el.getAttribute('media') || ''
+  if (el.localName === 'style') {
+    const cssText = el.textContent || ''
+    return /@import\b/i.test(cssText) ? null : getConstructedStyleSheet(cssText, media)
+  }
+
+  const href = getAdoptableHref(el)
+  if (!href) return null
+  const cssText = stylesheetTexts.get(href)
+  if (cssText === undefined) {
+    return typeof fetch === 'function' ? { link: el, href, media } : null
+  }
+  if (/@import\b/i.test(cssText)) return null
+  return getConstructedStyleSheet(resolveCssUrls(cssText, href), media)
+}
+
+/**
+ * Insert host sheets as `<style>` elements at the start of the document's `<head>`,
+ * ahead of the content's stylesheets.
+ */
+function prependHostStyleSheets(
+  doc: Document | ShadowRoot,
+  hostStyleSheets: (CSSStyleSheet | string)[],
+): void {
+  const head = doc.querySelector('head')
+  if (!head) return
+  hostStyleSheets
+    .slice()
+    .reverse()
+    .forEach((sheet) => {
+      const style = head.ownerDocument.createElement('style')
+      style.textContent = getHostSheetText(sheet)
+      head.prepend(style)
+    })
+}
+
+/**
+ * Move the stylesheets of a parsed document into a shadow root's `adoptedStyleSheets`.
+ *
+ * Must be called before the document is imported into the shadow root. The host
+ * sheets come first and the content's sheets follow in document order, so content
+ * styles override host styles:
+ *
+ * - With `adoptStyleSheets`, `<style>` elements and same-origin linked stylesheets
+ *   are removed from the document and adopted as cached constructed sheets. Linked
+ *   stylesheets that aren't cached yet are adopted once fetched; until then their
+ *   `<link>` elements stay in place without their `rel`, so they aren't loaded twice.
+ *   A linked stylesheet that turns out unreadable (or uses `@import`) gets its `rel`
+ *   back, and then cascades before the adopted sheets.
+ * - If a content stylesheet can't be adopted (it uses `@import` or is cross-origin),
+ *   or without `adoptStyleSheets`, the content's stylesheets stay in the tree and the
+ *   host sheets are inserted as `<style>` elements at the start of its `<head>`.
+ *   This is also the fallback where `adoptedStyleSheets` isn't supported.
+ *
+ * Alternate stylesheets don't apply by default and are always left in place.
+ *
+ * @param shadowRoot - The shadow root the document is rendered into
+ * @param doc - The parsed (not yet imported) document, or the shadow root itself for
+ *   content that is already in place (e.g. hydrated server output)
+ * @param options - Whether to adopt content stylesheets, and the host sheets
+ * @returns Resolves once linked stylesheets have been adopted (or skipped). Never rejects.
+ *
+ * @example
+ * ```ts
+ * const doc = new DOMParser().parseFromString(html, 'text/html');
+ * const adopted = adoptDocumentStyleSheets(shadowRoot, doc, {
+ *   adoptStyleSheets: true,
+ *   hostStyleSheets: [tokensSheet],
+ * });
+ * shadowRoot.appendChild(document.importNode(doc.documentElement, true));
+ * await adopted;
+ * ```
+ */
+export function adoptDocumentStyleSheets(
+  shadowRoot: ShadowRoot,
+  doc: Document | ShadowRoot,
+  options: IAdoptedStyleSheetOptions = {},
+): Promise<void> {
+  const { adoptStyleSheets = false, hostStyleSheets = [] } = options
+
+  if (!supportsAdoptedStyleSheets()) {
+    prependHostStyleSheets(doc, hostStyleSheets)
+    return Promise.resolve()
+  }
+
+  // Content sheets in document order; pending links are resolved later
+  const elements = Array.from(doc.querySelectorAll('style, link[rel~="stylesheet"][href]')).filter(
+    (el) => !/\balternate\b/i.test(el.getAttribute('rel') || ''),
+  )
+  const entries = elements.map((el) => (adoptStyleSheets ? getAdoptableSheet(el) : null))
+
+  // Adopted sheets would cascade after the ones left in the tree
+  if (entries.includes(null)) {
+    releaseAdoptedStyleSheets(shadowRoot)
+    prependHostStyleSheets(doc, hostStyleSheets)
+    return Promise.resolve()
+  }
+  if (entries.length === 0 && hostStyleSheets.length === 0) {
+    releaseAdoptedStyleSheets(shadowRoot)
+    return Promise.resolve()
+  }
+
+  const token = {}
+  adoptionTokens.set(shadowRoot, token)
+
+  const hostSheets = hostStyleSheets.map((sheet) =>
+    typeof sheet === 'string' ? getConstructedStyleSheet(sheet) : sheet,
+  )
+  const isSheet = (entry: AdoptableSheet | null): entry is CSSStyleSheet =>
+    entry !== null && !('link' in entry)
+
+  entries.forEach((entry, i) => {
+    if (isSheet(entry)) {
+      elements[i]!.remove()
+    } else if (entry) {
+      entry.link.setAttribute(PENDING_REL_ATTRIBUTE, entry.link.getAttribute('rel') || '')
+      entry.link.removeAttribute('rel')
+    }
+  })
+  shadowRoot.adoptedStyleSheets = [...hostSheets, ...entries.filter(isSheet)]
+
+  if (entries.every(isSheet)) return Promise.resolve()
+
+  return (async () => {
+    const unreadable = new Set<string>()
+    const sheets = await Promise.all(
+      entries.map(async (entry) => {
+        if (!entry || isSheet(entry)) return entry
+        const cssText = await fetchStylesheetText(entry.href)
+        if (cssText === null || /@import\b/i.test(cssText)) {
+          unreadable.add(entry.href)
+          return null
+        }
+        return getConstructedStyleSheet(resolveCssUrls(cssText, entry.href), entry.media)
+      }),
+    )
+    if (adoptionTokens.get(shadowRoot) !== token) return
+
+    shadowRoot.adoptedStyleSheets = [...hostSheets, ...sheets.filter(isSheet)]
+    // The adopted sheets replace their <link> elements; the others are loaded after all
+    shadowRoot.querySelectorAll(`link[${PENDING_REL_ATTRIBUTE}]`).forEach((link) => {
+      const href = getAdoptableHref(link)
+      if (href && unreadable.has(href)) {
+        link.setAttribute('rel', link.getAttribute(PENDING_REL_ATTRIBUTE)!)
+        link.removeAttribute(PENDING_REL_ATTRIBUTE)
+      } else {
+        link.remove()
+      }
+    })
+  })()
+}
+
+/**
+ * Remove the sheets adopted by adoptDocumentStyleSheets from a shadow root.
+ *
+ * Sheets adopted by other code are only touched if adoptDocumentStyleSheets
+ * replaced them before.
+ *
+ * @param shadowRoot - The shadow root to release
+ *
+ * @example
+ * ```ts
+ * releaseAdoptedStyleSheets(shadowRoot);
+ * ```
+ */
+export function releaseAdoptedStyleSheets(shadowRoot: ShadowRoot): void {
+  if (!adoptionTokens.has(shadowRoot)) return
+  adoptionTokens.delete(shadowRoot)
+  shadowRoot.adoptedStyleSheets = []
+}
@@ -22,14 +22,18 @@ export default defineConfig({
   },
   build: {
     lib: {
-      // Entry point for the library
-      entry: resolve(__dirname, 'src/main.ts'),
+      // Entry points for the library: the Vue package and the framework-agnostic core
+      entry: {
+        index: resolve(__dirname, 'src/main.ts'),
+        core: resolve(__dirname, 'src/core.ts'),
+      },
       // Library name
       name: 'VueHTMLRenderer',
       // Build only ESM format
       formats: ['es'],
-      // Output file name for ESM
-      fileName: 'vue-html-renderer',
+      // Output file names for ESM (the main entry keeps the package name; its types stay index.d.ts)
+      fileName: (_format, entryName) =>
+        entryName === 'index' ? 'vue-html-renderer.js' : `${entryName}.js`,
     },
     rolldownOptions: {
       // Externalize Vue - don't bundle it with the library